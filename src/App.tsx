@@ -8,9 +8,20 @@ import { AuthProvider } from "@/contexts/AuthContext";
 import HomePage from "./pages/HomePage";
 import AskQuestionPage from "./pages/AskQuestionPage";
 import QuestionDetailPage from "./pages/QuestionDetailPage";
+import EditPostPage from "./pages/EditPostPage";
+import PostRevisionsPage from "./pages/PostRevisionsPage";
 import AuthPage from "./pages/AuthPage";
+import UserProfilePage from "./pages/UserProfilePage";
+import NotificationsPage from "./pages/NotificationsPage";
+import SearchPage from "./pages/SearchPage";
+import TagsPage from "./pages/TagsPage";
+import TagPage from "./pages/TagPage";
+import ReviewQueuePage from "./pages/ReviewQueuePage";
+import ModerationPage from "./pages/ModerationPage";
+import AdminRolesPage from "./pages/AdminRolesPage";
 import NotFound from "./pages/NotFound";
 import Navbar from "./components/Navbar";
+import RequireRole from "./components/RequireRole";
 
 const queryClient = new QueryClient();
 
@@ -28,6 +39,23 @@ const App = () => (
               <Route path="/auth" element={<AuthPage />} />
               <Route path="/ask" element={<AskQuestionPage />} />
               <Route path="/question/:id" element={<QuestionDetailPage />} />
+              <Route path="/question/:id/edit" element={<EditPostPage />} />
+              <Route path="/question/:id/answers/:answerId/edit" element={<EditPostPage />} />
+              <Route path="/question/:id/revisions" element={<PostRevisionsPage />} />
+              <Route path="/users/:id" element={<UserProfilePage />} />
+              <Route path="/notifications" element={<NotificationsPage />} />
+              <Route path="/search" element={<SearchPage />} />
+              <Route path="/tags" element={<TagsPage />} />
+              <Route path="/tags/:tag" element={<TagPage />} />
+              <Route path="/review" element={<ReviewQueuePage />} />
+              <Route
+                path="/moderation"
+                element={<RequireRole role="moderator"><ModerationPage /></RequireRole>}
+              />
+              <Route
+                path="/admin/roles"
+                element={<RequireRole role="admin"><AdminRolesPage /></RequireRole>}
+              />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </div>
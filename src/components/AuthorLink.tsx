@@ -0,0 +1,33 @@
+import { Link } from "react-router-dom";
+
+interface AuthorLinkProps {
+  name: string;
+  userId: string | null;
+  reputation?: number | null;
+}
+
+const formatReputation = (reputation: number) => {
+  if (Math.abs(reputation) < 10000) return reputation.toLocaleString();
+  return `${(reputation / 1000).toFixed(1).replace(/\.0$/, '')}k`;
+};
+
+const AuthorLink = ({ name, userId, reputation }: AuthorLinkProps) => {
+  return (
+    <span className="inline-flex items-center gap-1">
+      {userId ? (
+        <Link to={`/users/${userId}`} className="font-medium text-foreground hover:text-primary">
+          {name}
+        </Link>
+      ) : (
+        <span className="font-medium text-foreground">{name}</span>
+      )}
+      {reputation != null && (
+        <span className="text-xs font-semibold text-muted-foreground" title="Reputation">
+          {formatReputation(reputation)}
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default AuthorLink;
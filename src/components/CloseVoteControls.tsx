@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePrivileges } from "@/hooks/use-privileges";
+import { CLOSE_REASONS, CloseReason, parseQuestionReference } from "@/lib/close-reasons";
+import { cn } from "@/lib/utils";
+
+interface CloseVoteControlsProps {
+  questionId: string;
+  closed: boolean;
+}
+
+interface CloseVote {
+  user_id: string;
+  vote_type: 'close' | 'reopen';
+}
+
+// "close (1/3)" or "reopen (1/3)" link for users with the close vote
+// privilege, with a dialog for picking the close reason and duplicate target
+const CloseVoteControls = ({ questionId, closed }: CloseVoteControlsProps) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { can } = usePrivileges();
+  const queryClient = useQueryClient();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [reason, setReason] = useState<CloseReason | null>(null);
+  const [search, setSearch] = useState("");
+  const [duplicateOf, setDuplicateOf] = useState<{ id: string; title: string } | null>(null);
+
+  const canVote = !!user && can('close_vote');
+
+  const { data: votes = [] } = useQuery({
+    queryKey: ['close-votes', questionId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('close_votes')
+        .select('user_id, vote_type')
+        .eq('question_id', questionId)
+        .eq('active', true);
+
+      if (error) throw error;
+      return data as CloseVote[];
+    },
+    enabled: canVote,
+  });
+
+  const { data: thresholds } = useQuery({
+    queryKey: ['site-settings', 'moderation'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('site_settings')
+        .select('key, value')
+        .in('key', ['moderation.close_votes_needed', 'moderation.reopen_votes_needed']);
+
+      if (error) throw error;
+      const value = (key: string) => data.find(s => s.key === key)?.value ?? 0;
+      return {
+        close: Math.max(value('moderation.close_votes_needed'), 1),
+        reopen: Math.max(value('moderation.reopen_votes_needed'), 1),
+      };
+    },
+    enabled: canVote,
+    staleTime: Infinity,
+  });
+
+  // Questions matching the duplicate search, or the one a pasted link points to
+  const { data: candidates = [] } = useQuery({
+    queryKey: ['duplicate-search', questionId, search.trim()],
+    queryFn: async () => {
+      const reference = parseQuestionReference(search);
+      if (reference) {
+        const { data, error } = await supabase
+          .from('questions')
+          .select('id, title')
+          .eq('id', reference)
+          .neq('id', questionId);
+
+        if (error) throw error;
+        return data;
+      }
+
+      const { data, error } = await supabase
+        .rpc('search_questions', { p_query: search.trim() })
+        .neq('id', questionId)
+        .limit(5);
+
+      if (error) throw error;
+      return data.map(({ id, title }) => ({ id, title }));
+    },
+    enabled: dialogOpen && reason === 'duplicate' && search.trim().length > 2,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['close-votes', questionId] });
+    queryClient.invalidateQueries({ queryKey: ['question', questionId] });
+    queryClient.invalidateQueries({ queryKey: ['questions'] });
+  };
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('vote_to_close', {
+        p_question_id: questionId,
+        p_reason: reason,
+        p_duplicate_of: reason === 'duplicate' ? duplicateOf?.id : undefined,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (nowClosed) => {
+      invalidate();
+      setDialogOpen(false);
+      toast({
+        title: nowClosed ? "Question closed" : "Close vote recorded",
+        description: nowClosed
+          ? "The question is closed and no longer accepts answers."
+          : "The question will be closed once enough users agree."
+      });
+    },
+    onError: (error) => {
+      invalidate();
+      toast({
+        title: "Error voting to close",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('vote_to_reopen', { p_question_id: questionId });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (reopened) => {
+      invalidate();
+      toast({
+        title: reopened ? "Question reopened" : "Reopen vote recorded",
+        description: reopened
+          ? "The question is open for answers again."
+          : "The question will be reopened once enough users agree."
+      });
+    },
+    onError: (error) => {
+      invalidate();
+      toast({
+        title: "Error voting to reopen",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (!canVote || !thresholds) return null;
+
+  const voteType = closed ? 'reopen' : 'close';
+  const count = votes.filter(v => v.vote_type === voteType).length;
+  const voted = votes.some(v => v.vote_type === voteType && v.user_id === user.id);
+  const label = `${voteType} (${count}/${thresholds[voteType]})`;
+
+  const openDialog = () => {
+    setReason(null);
+    setSearch("");
+    setDuplicateOf(null);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reason) {
+      toast({
+        title: "Reason required",
+        description: "Choose why this question should be closed.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (reason === 'duplicate' && !duplicateOf) {
+      toast({
+        title: "Original question required",
+        description: "Choose the question this one duplicates.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    closeMutation.mutate();
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        className="hover:text-primary disabled:opacity-50 disabled:hover:text-inherit"
+        onClick={closed ? () => reopenMutation.mutate() : openDialog}
+        disabled={voted || closeMutation.isPending || reopenMutation.isPending}
+        title={voted ? `You voted to ${voteType} this question` : `Vote to ${voteType} this question`}
+      >
+        {label}
+      </button>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Why should this question be closed?</DialogTitle>
+              <DialogDescription>
+                The question closes once {thresholds.close} users vote to close it.
+              </DialogDescription>
+            </DialogHeader>
+
+            <RadioGroup value={reason ?? ''} onValueChange={(value) => setReason(value as CloseReason)}>
+              {(Object.keys(CLOSE_REASONS) as CloseReason[]).map((key) => (
+                <div key={key} className="flex items-start gap-3">
+                  <RadioGroupItem value={key} id={`close-reason-${key}`} className="mt-1" />
+                  <Label htmlFor={`close-reason-${key}`} className="font-normal leading-snug cursor-pointer">
+                    <span className="font-medium">{CLOSE_REASONS[key].label}</span>
+                    <span className="block text-muted-foreground">{CLOSE_REASONS[key].description}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            {reason === 'duplicate' && (
+              <div className="space-y-2">
+                <Label htmlFor="duplicate-search">Original question</Label>
+                <Input
+                  id="duplicate-search"
+                  placeholder="Search by title or paste a link to the question"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+                {duplicateOf && (
+                  <p className="text-sm">
+                    Duplicate of: <span className="font-medium">{duplicateOf.title}</span>
+                  </p>
+                )}
+                {candidates.length > 0 && (
+                  <div className="rounded-md border divide-y max-h-48 overflow-y-auto">
+                    {candidates.map((candidate) => (
+                      <button
+                        key={candidate.id}
+                        type="button"
+                        className={cn(
+                          "block w-full px-3 py-2 text-left text-sm hover:bg-accent",
+                          duplicateOf?.id === candidate.id && "bg-accent font-medium"
+                        )}
+                        onClick={() => setDuplicateOf(candidate)}
+                      >
+                        {candidate.title}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={closeMutation.isPending}>
+                {closeMutation.isPending ? "Voting..." : "Vote to Close"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default CloseVoteControls;
@@ -0,0 +1,435 @@
+import { useState } from "react";
+import { ArrowUp, Flag, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import PrivilegeTooltip from "@/components/PrivilegeTooltip";
+import FlagDialog from "@/components/FlagDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePrivileges } from "@/hooks/use-privileges";
+import { parseCommentMarkdown } from "@/lib/comment-markdown";
+import { cn, formatTimeAgo } from "@/lib/utils";
+
+interface Comment {
+  id: string;
+  target_type: 'question' | 'answer';
+  target_id: string;
+  question_id: string;
+  content: string;
+  author_name: string;
+  user_id: string;
+  votes: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface CommentListProps {
+  questionId: string;
+  targetType: Comment['target_type'];
+  targetId: string;
+  /** Owner of the post being commented on */
+  postOwnerId: string | null;
+  /** Owner of the question the post belongs to */
+  questionOwnerId: string | null;
+  /** Locked questions take no new comments */
+  locked?: boolean;
+}
+
+const COLLAPSED_COUNT = 3;
+const MIN_LENGTH = 15;
+const MAX_LENGTH = 600;
+
+const CommentText = ({ content }: { content: string }) => (
+  <>
+    {parseCommentMarkdown(content).map((token, i) => {
+      switch (token.type) {
+        case "bold":
+          return <strong key={i}>{token.text}</strong>;
+        case "italic":
+          return <em key={i}>{token.text}</em>;
+        case "code":
+          return <code key={i} className="rounded bg-muted px-1 py-0.5 font-mono text-xs">{token.text}</code>;
+        case "link":
+          return (
+            <a key={i} href={token.href} className="text-primary hover:underline" rel="nofollow noopener noreferrer" target="_blank">
+              {token.text}
+            </a>
+          );
+        default:
+          return <span key={i}>{token.text}</span>;
+      }
+    })}
+  </>
+);
+
+const CommentList = ({ questionId, targetType, targetId, postOwnerId, questionOwnerId, locked = false }: CommentListProps) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { missingReason } = usePrivileges();
+  const queryClient = useQueryClient();
+
+  const [expanded, setExpanded] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newComment, setNewComment] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  const [flaggingId, setFlaggingId] = useState<string | null>(null);
+
+  // All comments on the question page share one query
+  const { data: allComments } = useQuery({
+    queryKey: ['comments', questionId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('comments')
+        .select('*')
+        .eq('question_id', questionId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as Comment[];
+    },
+  });
+
+  // Keyed on the comment ids so new comments fetch their votes too
+  const commentIds = allComments?.map(c => c.id) ?? [];
+
+  const { data: upvotedIds } = useQuery({
+    queryKey: ['comment-votes', questionId, user?.id, commentIds],
+    queryFn: async () => {
+      if (!user) throw new Error('User must be logged in');
+
+      const { data, error } = await supabase
+        .from('comment_votes')
+        .select('comment_id')
+        .eq('user_id', user.id)
+        .in('comment_id', commentIds);
+
+      if (error) throw error;
+      return data.map(v => v.comment_id);
+    },
+    enabled: !!user && !!allComments,
+  });
+
+  const { data: editWindowMinutes } = useQuery({
+    queryKey: ['site-setting', 'comments.edit_window_minutes'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('setting', { p_key: 'comments.edit_window_minutes' });
+
+      if (error) throw error;
+      return data;
+    },
+    staleTime: Infinity,
+  });
+
+  const comments = allComments?.filter(c => c.target_type === targetType && c.target_id === targetId) ?? [];
+  const visibleComments = expanded ? comments : comments.slice(0, COLLAPSED_COUNT);
+  const hiddenCount = comments.length - visibleComments.length;
+
+  const isOwnPost = !!user && (user.id === postOwnerId || user.id === questionOwnerId);
+  const commentReason = isOwnPost ? null : missingReason('comment');
+
+  const canEdit = (comment: Comment) => {
+    if (!user || comment.user_id !== user.id || editWindowMinutes === undefined) return false;
+    return Date.now() - new Date(comment.created_at).getTime() < editWindowMinutes * 60 * 1000;
+  };
+
+  const validate = (content: string) => {
+    const length = content.trim().length;
+    if (length >= MIN_LENGTH && length <= MAX_LENGTH) return true;
+
+    toast({
+      title: "Invalid comment",
+      description: `Comments must be between ${MIN_LENGTH} and ${MAX_LENGTH} characters.`,
+      variant: "destructive"
+    });
+    return false;
+  };
+
+  const invalidateComments = () => {
+    queryClient.invalidateQueries({ queryKey: ['comments', questionId] });
+  };
+
+  const addCommentMutation = useMutation({
+    mutationFn: async (content: string) => {
+      if (!user) throw new Error('User must be logged in');
+
+      const { error } = await supabase
+        .from('comments')
+        .insert({
+          content: content.trim(),
+          target_type: targetType,
+          target_id: targetId,
+          question_id: questionId,
+          author_name: user.email?.split('@')[0] || 'Anonymous',
+          user_id: user.id,
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      setNewComment("");
+      setIsAdding(false);
+      setExpanded(true);
+      invalidateComments();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error posting comment",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const editCommentMutation = useMutation({
+    mutationFn: async ({ commentId, content }: { commentId: string; content: string }) => {
+      const { data, error } = await supabase
+        .from('comments')
+        .update({ content: content.trim() })
+        .eq('id', commentId)
+        .select('id');
+
+      if (error) throw error;
+      // RLS silently filters out comments past the edit window
+      if (data.length === 0) throw new Error('This comment can no longer be edited.');
+    },
+    onSuccess: () => {
+      setEditingId(null);
+      invalidateComments();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error editing comment",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deleteCommentMutation = useMutation({
+    mutationFn: async (commentId: string) => {
+      const { error } = await supabase
+        .from('comments')
+        .delete()
+        .eq('id', commentId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateComments();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error deleting comment",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const upvoteCommentMutation = useMutation({
+    mutationFn: async (commentId: string) => {
+      const { data, error } = await supabase.rpc('toggle_comment_upvote', { p_comment_id: commentId });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (total, commentId) => {
+      queryClient.setQueryData<Comment[]>(['comments', questionId], (old) =>
+        old?.map(c => (c.id === commentId ? { ...c, votes: total } : c))
+      );
+      queryClient.setQueryData<string[]>(['comment-votes', questionId, user?.id, commentIds], (old = []) =>
+        old.includes(commentId) ? old.filter(id => id !== commentId) : [...old, commentId]
+      );
+    },
+    onError: (error) => {
+      toast({
+        title: "Error voting",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleAddComment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (validate(newComment)) addCommentMutation.mutate(newComment);
+  };
+
+  const handleEditComment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId && validate(editText)) editCommentMutation.mutate({ commentId: editingId, content: editText });
+  };
+
+  const handleUpvote = (comment: Comment) => {
+    if (!user) {
+      toast({
+        title: "Login required",
+        description: "Please log in to vote on comments.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    upvoteCommentMutation.mutate(comment.id);
+  };
+
+  return (
+    <div className="mt-4 border-t pt-2">
+      {visibleComments.length > 0 && (
+        <ul className="divide-y text-sm">
+          {visibleComments.map((comment) => {
+            const upvoted = upvotedIds?.includes(comment.id) ?? false;
+            const isOwn = user?.id === comment.user_id;
+
+            return (
+              <li key={comment.id} className="group flex gap-2 py-2">
+                <div className="flex w-10 shrink-0 items-start justify-end gap-1">
+                  {comment.votes > 0 && (
+                    <span className={cn("font-medium", upvoted ? "text-primary" : "text-muted-foreground")}>
+                      {comment.votes}
+                    </span>
+                  )}
+                  {user && !isOwn && (
+                    <button
+                      type="button"
+                      onClick={() => handleUpvote(comment)}
+                      disabled={upvoteCommentMutation.isPending}
+                      className={cn(
+                        "opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-primary",
+                        upvoted && "text-primary opacity-100"
+                      )}
+                      title={upvoted ? "Undo upvote" : "This comment adds something useful"}
+                    >
+                      <ArrowUp className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  {editingId === comment.id ? (
+                    <form onSubmit={handleEditComment} className="space-y-2">
+                      <Textarea
+                        value={editText}
+                        onChange={(e) => setEditText(e.target.value)}
+                        maxLength={MAX_LENGTH}
+                        className="min-h-[60px] text-sm"
+                      />
+                      <div className="flex gap-2">
+                        <Button type="submit" size="sm" disabled={editCommentMutation.isPending}>
+                          Save Edits
+                        </Button>
+                        <Button type="button" size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </form>
+                  ) : (
+                    <p className="break-words">
+                      <CommentText content={comment.content} />
+                      <span className="text-muted-foreground">
+                        {" – "}
+                        <span className="font-medium text-foreground">{comment.author_name}</span>
+                        {" "}{formatTimeAgo(comment.created_at)}
+                        {comment.updated_at !== comment.created_at && " (edited)"}
+                      </span>
+                      {isOwn && (
+                        <span className="ml-2 inline-flex gap-1 align-middle opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                          {canEdit(comment) && (
+                            <button
+                              type="button"
+                              onClick={() => {
+                                setEditingId(comment.id);
+                                setEditText(comment.content);
+                              }}
+                              className="text-muted-foreground hover:text-foreground"
+                              title="Edit comment"
+                            >
+                              <Pencil className="h-3.5 w-3.5" />
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => deleteCommentMutation.mutate(comment.id)}
+                            disabled={deleteCommentMutation.isPending}
+                            className="text-muted-foreground hover:text-destructive"
+                            title="Delete comment"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </button>
+                        </span>
+                      )}
+                      {user && !isOwn && (
+                        <button
+                          type="button"
+                          onClick={() => setFlaggingId(comment.id)}
+                          className="ml-2 align-middle text-muted-foreground opacity-0 hover:text-destructive group-hover:opacity-100 focus:opacity-100"
+                          title="Flag comment"
+                        >
+                          <Flag className="h-3.5 w-3.5" />
+                        </button>
+                      )}
+                    </p>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {hiddenCount > 0 && (
+        <Button variant="link" size="sm" className="h-auto px-0" onClick={() => setExpanded(true)}>
+          Show {hiddenCount} more comment{hiddenCount !== 1 ? 's' : ''}
+        </Button>
+      )}
+
+      {user && !locked && (
+        isAdding ? (
+          <form onSubmit={handleAddComment} className="mt-2 space-y-2">
+            <Textarea
+              value={newComment}
+              onChange={(e) => setNewComment(e.target.value)}
+              placeholder="Use comments to ask for more information or suggest improvements. Supports **bold**, *italic*, `code` and [links](https://...)."
+              maxLength={MAX_LENGTH}
+              className="min-h-[60px] text-sm"
+              autoFocus
+            />
+            <div className="flex items-center gap-2">
+              <Button type="submit" size="sm" disabled={addCommentMutation.isPending}>
+                {addCommentMutation.isPending ? "Posting..." : "Add Comment"}
+              </Button>
+              <Button type="button" size="sm" variant="outline" onClick={() => setIsAdding(false)}>
+                Cancel
+              </Button>
+              <span className="ml-auto text-xs text-muted-foreground">
+                {newComment.trim().length}/{MAX_LENGTH}
+              </span>
+            </div>
+          </form>
+        ) : (
+          <PrivilegeTooltip reason={commentReason}>
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto px-0 text-muted-foreground"
+              onClick={() => setIsAdding(true)}
+              disabled={!!commentReason}
+            >
+              Add a comment
+            </Button>
+          </PrivilegeTooltip>
+        )
+      )}
+
+      <FlagDialog
+        target={flaggingId ? { type: 'comment', id: flaggingId } : null}
+        onClose={() => setFlaggingId(null)}
+      />
+    </div>
+  );
+};
+
+export default CommentList;
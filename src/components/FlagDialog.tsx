@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { FLAG_REASONS, FlagReason, FlagTargetType } from "@/lib/flags";
+
+interface FlagDialogProps {
+  /** The post or comment being flagged; the dialog is open while this is set */
+  target: { type: FlagTargetType; id: string } | null;
+  onClose: () => void;
+}
+
+const MAX_DETAILS_LENGTH = 500;
+
+// Asks why a post or comment should be looked at by a moderator
+const FlagDialog = ({ target, onClose }: FlagDialogProps) => {
+  const { toast } = useToast();
+  const [reason, setReason] = useState<FlagReason | null>(null);
+  const [details, setDetails] = useState("");
+
+  // Start afresh whenever the dialog opens for a different target
+  const targetKey = target ? `${target.type}:${target.id}` : null;
+  useEffect(() => {
+    setReason(null);
+    setDetails("");
+  }, [targetKey]);
+
+  const flagMutation = useMutation({
+    mutationFn: async () => {
+      if (!target || !reason) throw new Error('Choose a reason for the flag');
+
+      const { error } = await supabase.rpc('flag_post', {
+        p_target_type: target.type,
+        p_target_id: target.id,
+        p_reason: reason,
+        p_details: details.trim() || undefined,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      onClose();
+      toast({
+        title: "Thanks for flagging",
+        description: "A moderator will review it shortly."
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error flagging",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reason) {
+      toast({
+        title: "Reason required",
+        description: "Choose why this needs a moderator's attention.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (reason === 'other' && !details.trim()) {
+      toast({
+        title: "Details required",
+        description: "Describe the problem for the moderators.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    flagMutation.mutate();
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Flag this {target?.type}</DialogTitle>
+            <DialogDescription>
+              Flags are private and reviewed by moderators.
+            </DialogDescription>
+          </DialogHeader>
+
+          <RadioGroup value={reason ?? ''} onValueChange={(value) => setReason(value as FlagReason)}>
+            {(Object.keys(FLAG_REASONS) as FlagReason[]).map((key) => (
+              <div key={key} className="flex items-start gap-3">
+                <RadioGroupItem value={key} id={`flag-reason-${key}`} className="mt-1" />
+                <Label htmlFor={`flag-reason-${key}`} className="font-normal leading-snug cursor-pointer">
+                  <span className="font-medium">{FLAG_REASONS[key].label}</span>
+                  <span className="block text-muted-foreground">{FLAG_REASONS[key].description}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="flag-details">
+              Details {reason !== 'other' && <span className="text-muted-foreground">(optional)</span>}
+            </Label>
+            <Textarea
+              id="flag-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={MAX_DETAILS_LENGTH}
+              className="min-h-[80px]"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={flagMutation.isPending}>
+              {flagMutation.isPending ? "Flagging..." : "Flag"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FlagDialog;
@@ -1,6 +1,7 @@
 
 import { Bell, Plus, Search, User, LogOut } from "lucide-react";
-import { Link, useLocation } from "react-router-dom";
+import { useEffect, useState } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -12,16 +13,36 @@ import {
   DropdownMenuSeparator,
 } from "@/components/ui/dropdown-menu";
 import { useAuth } from "@/contexts/AuthContext";
+import { useNotifications, useMarkNotificationsRead } from "@/hooks/use-notifications";
+import { describeNotification } from "@/lib/notifications";
+import { cn, formatTimeAgo } from "@/lib/utils";
 
 const Navbar = () => {
   const location = useLocation();
-  const { user, signOut } = useAuth();
-  const notificationCount = 3; // Mock notification count
+  const navigate = useNavigate();
+  const [searchQuery, setSearchQuery] = useState("");
+  const { user, signOut, hasRole } = useAuth();
+  const { unreadCount, recent } = useNotifications();
+  const { markRead, markAllRead } = useMarkNotificationsRead();
+
+  // Keep the search box in step with the query being shown
+  useEffect(() => {
+    if (location.pathname === "/search") {
+      setSearchQuery(new URLSearchParams(location.search).get("q") ?? "");
+    }
+  }, [location.pathname, location.search]);
 
   const handleSignOut = async () => {
     await signOut();
   };
 
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = searchQuery.trim();
+    if (!query) return;
+    navigate(`/search?q=${encodeURIComponent(query)}`);
+  };
+
   return (
     <nav className="border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 sticky top-0 z-50">
       <div className="container mx-auto px-4 py-3">
@@ -35,18 +56,25 @@ const Navbar = () => {
           </Link>
 
           {/* Search Bar - Hidden on mobile, shown on desktop */}
-          <div className="hidden md:flex flex-1 max-w-md mx-4">
+          <form onSubmit={handleSearch} className="hidden md:flex flex-1 max-w-md mx-4" role="search">
             <div className="relative w-full">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
               <Input
+                type="search"
                 placeholder="Search questions..."
                 className="pl-10 w-full"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
               />
             </div>
-          </div>
+          </form>
 
           {/* Action Buttons */}
           <div className="flex items-center gap-2">
+            <Button variant="ghost" asChild className="hidden sm:flex">
+              <Link to="/tags">Tags</Link>
+            </Button>
+
             {/* Mobile Search Button */}
             <Button variant="ghost" size="icon" className="md:hidden">
               <Search className="h-4 w-4" />
@@ -74,33 +102,60 @@ const Navbar = () => {
                   <DropdownMenuTrigger asChild>
                     <Button variant="ghost" size="icon" className="relative">
                       <Bell className="h-4 w-4" />
-                      {notificationCount > 0 && (
+                      {unreadCount > 0 && (
                         <Badge 
                           variant="destructive" 
-                          className="absolute -top-1 -right-1 h-5 w-5 rounded-full p-0 flex items-center justify-center text-xs"
+                          className="absolute -top-1 -right-1 h-5 min-w-5 rounded-full px-1 flex items-center justify-center text-xs"
                         >
-                          {notificationCount}
+                          {unreadCount > 99 ? '99+' : unreadCount}
                         </Badge>
                       )}
                     </Button>
                   </DropdownMenuTrigger>
                   <DropdownMenuContent align="end" className="w-80">
                     <div className="p-2">
-                      <h4 className="font-semibold mb-2">Notifications</h4>
+                      <div className="flex items-center justify-between mb-2">
+                        <h4 className="font-semibold">Notifications</h4>
+                        {unreadCount > 0 && (
+                          <Button
+                            variant="link"
+                            size="sm"
+                            className="h-auto p-0 text-xs"
+                            onClick={() => markAllRead.mutate()}
+                            disabled={markAllRead.isPending}
+                          >
+                            Mark all as read
+                          </Button>
+                        )}
+                      </div>
                       <div className="space-y-2">
-                        <DropdownMenuItem className="flex-col items-start p-3">
-                          <span className="font-medium">New answer on your question</span>
-                          <span className="text-sm text-muted-foreground">Someone answered "How to use React hooks?"</span>
-                        </DropdownMenuItem>
-                        <DropdownMenuItem className="flex-col items-start p-3">
-                          <span className="font-medium">Your answer was upvoted</span>
-                          <span className="text-sm text-muted-foreground">+1 vote on your JavaScript answer</span>
-                        </DropdownMenuItem>
-                        <DropdownMenuItem className="flex-col items-start p-3">
-                          <span className="font-medium">You were mentioned</span>
-                          <span className="text-sm text-muted-foreground">@username mentioned you in a comment</span>
-                        </DropdownMenuItem>
+                        {recent && recent.length > 0 ? (
+                          recent.map((notification) => {
+                            const { title, description, link } = describeNotification(notification);
+                            return (
+                              <DropdownMenuItem key={notification.id} asChild>
+                                <Link
+                                  to={link}
+                                  onClick={() => !notification.read_at && markRead.mutate(notification.id)}
+                                  className={cn("flex-col items-start p-3", !notification.read_at && "bg-accent/50")}
+                                >
+                                  <span className="font-medium">{title}</span>
+                                  <span className="text-sm text-muted-foreground line-clamp-2">{description}</span>
+                                  <span className="text-xs text-muted-foreground">{formatTimeAgo(notification.created_at)}</span>
+                                </Link>
+                              </DropdownMenuItem>
+                            );
+                          })
+                        ) : (
+                          <p className="text-sm text-muted-foreground p-3">You're all caught up.</p>
+                        )}
                       </div>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem asChild>
+                        <Link to="/notifications" className="justify-center text-sm">
+                          View all notifications
+                        </Link>
+                      </DropdownMenuItem>
                     </div>
                   </DropdownMenuContent>
                 </DropdownMenu>
@@ -117,7 +172,22 @@ const Navbar = () => {
                       <span className="font-medium">{user.email}</span>
                     </DropdownMenuItem>
                     <DropdownMenuSeparator />
-                    <DropdownMenuItem>Profile</DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link to={`/users/${user.id}`}>Profile</Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link to="/review">Review queue</Link>
+                    </DropdownMenuItem>
+                    {hasRole('moderator') && (
+                      <DropdownMenuItem asChild>
+                        <Link to="/moderation">Moderation</Link>
+                      </DropdownMenuItem>
+                    )}
+                    {hasRole('admin') && (
+                      <DropdownMenuItem asChild>
+                        <Link to="/admin/roles">Roles</Link>
+                      </DropdownMenuItem>
+                    )}
                     <DropdownMenuItem>Settings</DropdownMenuItem>
                     <DropdownMenuSeparator />
                     <DropdownMenuItem onClick={handleSignOut}>
@@ -136,15 +206,18 @@ const Navbar = () => {
         </div>
 
         {/* Mobile Search Bar */}
-        <div className="md:hidden mt-3">
+        <form onSubmit={handleSearch} className="md:hidden mt-3" role="search">
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
             <Input
+              type="search"
               placeholder="Search questions..."
               className="pl-10 w-full"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
             />
           </div>
-        </div>
+        </form>
       </div>
     </nav>
   );
@@ -0,0 +1,74 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { renderMarkdown } from "@/lib/markdown";
+import { enhanceCodeBlocks } from "@/lib/code-blocks";
+import { cn } from "@/lib/utils";
+import "highlight.js/styles/github-dark.css";
+
+interface PostBodyProps {
+  content: string;
+  className?: string;
+}
+
+// Renders a question or answer body as sanitized markdown
+const PostBody = ({ content, className }: PostBodyProps) => {
+  const navigate = useNavigate();
+  const baseHtml = useMemo(() => renderMarkdown(content), [content]);
+  const [html, setHtml] = useState(baseHtml);
+
+  // Code highlighting loads grammars on demand, so it's applied once ready
+  useEffect(() => {
+    let cancelled = false;
+    setHtml(baseHtml);
+    enhanceCodeBlocks(baseHtml).then((enhanced) => {
+      if (!cancelled) setHtml(enhanced);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [baseHtml]);
+
+  const copyCode = (button: HTMLElement) => {
+    const code = button.closest("[data-code-block]")?.querySelector("code")?.textContent ?? "";
+    navigator.clipboard.writeText(code).then(
+      () => {
+        button.textContent = "Copied!";
+        setTimeout(() => (button.textContent = "Copy"), 2000);
+      },
+      () => {
+        button.textContent = "Copy failed";
+      }
+    );
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const copyButton = (e.target as HTMLElement).closest<HTMLElement>("[data-copy-code]");
+    if (copyButton) {
+      copyCode(copyButton);
+      return;
+    }
+
+    // Keep in-app links (mentions, other questions) inside the router
+    const link = (e.target as HTMLElement).closest("a");
+    const href = link?.getAttribute("href");
+    if (!href?.startsWith("/") || href.startsWith("//")) return;
+    if (e.metaKey || e.ctrlKey || e.shiftKey || e.button !== 0) return;
+
+    e.preventDefault();
+    navigate(href);
+  };
+
+  return (
+    <div
+      className={cn(
+        "prose prose-sm max-w-none dark:prose-invert break-words",
+        "prose-a:text-primary prose-img:rounded-md [&_a[data-mention]]:font-medium [&_a[data-mention]]:no-underline",
+        className
+      )}
+      onClick={handleClick}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
+
+export default PostBody;
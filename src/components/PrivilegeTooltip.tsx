@@ -0,0 +1,26 @@
+import { ReactNode } from "react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+
+interface PrivilegeTooltipProps {
+  reason?: string | null;
+  children: ReactNode;
+}
+
+// Explains why a control is disabled. Disabled buttons don't emit pointer
+// events, so the tooltip is anchored to a wrapping span instead.
+const PrivilegeTooltip = ({ reason, children }: PrivilegeTooltipProps) => {
+  if (!reason) return <>{children}</>;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span tabIndex={0} className="inline-flex">
+          {children}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs">{reason}</TooltipContent>
+    </Tooltip>
+  );
+};
+
+export default PrivilegeTooltip;
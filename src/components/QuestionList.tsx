@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Calendar, Eye } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { cn, formatTimeAgo } from "@/lib/utils";
+import { markdownToText } from "@/lib/markdown";
+import AuthorLink from "@/components/AuthorLink";
+import TagBadge from "@/components/TagBadge";
+import { useTagPreferences } from "@/hooks/use-tag-preferences";
+
+const PAGE_SIZE = 20;
+
+const NO_TAGS: string[] = [];
+
+interface QuestionListProps {
+  title: string;
+  /** Only show questions with this tag */
+  tag?: string;
+  /**
+   * Shape the feed with the user's watched and ignored tags: highlight
+   * watched questions, dim or hide ignored ones, and offer the Interesting sort
+   */
+  personalized?: boolean;
+}
+
+// Question feed with sort and filter controls, shared by the home page and
+// tag pages
+const QuestionList = ({ title, tag, personalized = false }: QuestionListProps) => {
+  const [sortBy, setSortBy] = useState(personalized ? "interesting" : "newest");
+  const [filterBy, setFilterBy] = useState("all");
+  const [page, setPage] = useState(1);
+  const preferences = useTagPreferences();
+  const watched = personalized ? preferences.watched_tags : NO_TAGS;
+  const ignored = personalized ? preferences.ignored_tags : NO_TAGS;
+  const hideIgnored = personalized && preferences.hide_ignored_tags;
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['questions', sortBy, filterBy, tag, page, watched, ignored, hideIgnored],
+    queryFn: async () => {
+      // question_feed() scores each question against the watched and ignored tags
+      const feed = (options: { head?: boolean } = {}) => {
+        let query = supabase.rpc('question_feed', { p_watched: watched, p_ignored: ignored }, { count: 'exact', ...options });
+
+        if (tag) {
+          query = query.contains('tags', [tag]);
+        }
+
+        // Apply filters
+        if (filterBy === 'unanswered') {
+          query = query.eq('answer_count', 0);
+        } else if (filterBy === 'answered') {
+          query = query.gt('answer_count', 0);
+        }
+
+        return query;
+      };
+
+      let query = hideIgnored ? feed().eq('ignored', false) : feed();
+
+      // Apply sorting
+      if (sortBy === 'interesting') {
+        query = query.order('interest', { ascending: false }).order('created_at', { ascending: false });
+      } else if (sortBy === 'newest') {
+        query = query.order('created_at', { ascending: false });
+      } else if (sortBy === 'oldest') {
+        query = query.order('created_at', { ascending: true });
+      } else if (sortBy === 'votes') {
+        query = query.order('votes', { ascending: false });
+      }
+
+      const from = (page - 1) * PAGE_SIZE;
+      const { data, count, error } = await query.range(from, from + PAGE_SIZE - 1);
+      if (error) throw error;
+
+      let hidden = 0;
+      if (hideIgnored) {
+        const { count, error } = await feed({ head: true }).eq('ignored', true);
+        if (error) throw error;
+        hidden = count ?? 0;
+      }
+
+      return { questions: data, total: count ?? 0, hidden };
+    },
+  });
+
+  const totalPages = Math.ceil((data?.total ?? 0) / PAGE_SIZE);
+
+  const goToPage = (target: number) => {
+    setPage(target);
+    window.scrollTo({ top: 0 });
+  };
+
+  return (
+    <>
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">{title}</h1>
+          <p className="text-muted-foreground">
+            {data ? `${data.total} questions` : 'Loading questions...'}
+            {data && data.hidden > 0 && ` (${data.hidden} hidden by your ignored tags)`}
+          </p>
+        </div>
+      
+        {/* Filters */}
+        <div className="flex flex-wrap gap-2">
+          <Select value={sortBy} onValueChange={(value) => { setSortBy(value); setPage(1); }}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {personalized && <SelectItem value="interesting">Interesting</SelectItem>}
+              <SelectItem value="newest">Newest</SelectItem>
+              <SelectItem value="oldest">Oldest</SelectItem>
+              <SelectItem value="votes">Most Votes</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Select value={filterBy} onValueChange={(value) => { setFilterBy(value); setPage(1); }}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              <SelectItem value="unanswered">Unanswered</SelectItem>
+              <SelectItem value="answered">Answered</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Questions List */}
+      <div className="space-y-4">
+        {isLoading ? (
+          // Loading skeletons
+          Array.from({ length: 3 }).map((_, i) => (
+            <Card key={i}>
+              <CardContent className="p-6">
+                <div className="flex flex-col lg:flex-row gap-4">
+                  <div className="flex lg:flex-col gap-4 lg:gap-2 lg:w-24">
+                    <Skeleton className="h-8 w-16" />
+                    <Skeleton className="h-8 w-16" />
+                    <Skeleton className="h-8 w-16" />
+                  </div>
+                  <div className="flex-1 space-y-3">
+                    <Skeleton className="h-6 w-3/4" />
+                    <Skeleton className="h-4 w-full" />
+                    <Skeleton className="h-4 w-2/3" />
+                    <div className="flex gap-2">
+                      <Skeleton className="h-6 w-16" />
+                      <Skeleton className="h-6 w-20" />
+                      <Skeleton className="h-6 w-14" />
+                    </div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        ) : error ? (
+          <div className="text-center py-8">
+            <p className="text-destructive">Error loading questions. Please try again.</p>
+          </div>
+        ) : data && data.questions.length > 0 ? (
+          data.questions.map((question) => (
+            <Card
+              key={question.id}
+              className={cn(
+                "hover:shadow-md transition-shadow",
+                question.watched && !question.ignored && "border-primary/50 bg-primary/5",
+                question.ignored && "opacity-50 hover:opacity-100"
+              )}
+            >
+              <CardContent className="p-6">
+                <div className="flex flex-col lg:flex-row gap-4">
+                  {/* Stats - Mobile: Top, Desktop: Left */}
+                  <div className="flex lg:flex-col gap-4 lg:gap-2 lg:w-24 lg:text-center">
+                    <div className="flex lg:flex-col items-center gap-1">
+                      <span className="font-semibold text-lg">{question.votes || 0}</span>
+                      <span className="text-xs text-muted-foreground">votes</span>
+                    </div>
+                    <div className={`flex lg:flex-col items-center gap-1 ${question.has_accepted_answer ? 'text-green-600' : ''}`}>
+                      <span className="font-semibold text-lg">{question.answer_count}</span>
+                      <span className="text-xs text-muted-foreground">answers</span>
+                    </div>
+                    <div className="flex lg:flex-col items-center gap-1">
+                      <span className="font-semibold text-lg">{question.views || 0}</span>
+                      <span className="text-xs text-muted-foreground">views</span>
+                    </div>
+                  </div>
+
+                  {/* Question Content */}
+                  <div className="flex-1 min-w-0">
+                    <Link 
+                      to={`/question/${question.id}`}
+                      className="block hover:text-primary transition-colors"
+                    >
+                      <h3 className="text-lg font-semibold mb-2 line-clamp-2">
+                        {question.watched && !question.ignored && (
+                          <Eye className="inline h-4 w-4 mr-1 text-primary" aria-label="Has a watched tag" />
+                        )}
+                        {question.title}
+                        {question.closed_at && (
+                          <span className="font-normal text-muted-foreground">
+                            {' '}[{question.close_reason === 'duplicate' ? 'duplicate' : 'closed'}]
+                          </span>
+                        )}
+                      </h3>
+                    </Link>
+                  
+                    <p className="text-muted-foreground text-sm mb-4 line-clamp-2">
+                      {markdownToText(question.description)}
+                    </p>
+                  
+                    {/* Tags */}
+                    {question.tags && question.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mb-4">
+                        {question.tags.map((tag) => (
+                          <TagBadge key={tag} tag={tag} className="text-xs" />
+                        ))}
+                      </div>
+                    )}
+                  
+                    {/* Meta */}
+                    <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2 text-sm text-muted-foreground">
+                      <div className="flex items-center gap-1">
+                        <Calendar className="h-3 w-3" />
+                        <span>asked {formatTimeAgo(question.created_at)}</span>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <span>by</span>
+                        <AuthorLink
+                          name={question.author_name}
+                          userId={question.user_id}
+                          reputation={question.author_reputation}
+                        />
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        ) : (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-semibold mb-2">No questions yet</h3>
+            <p className="text-muted-foreground mb-4">
+              {tag ? `Be the first to ask a question tagged [${tag}]!` : 'Be the first to ask a question!'}
+            </p>
+            <Button asChild>
+              <Link to="/ask">Ask Question</Link>
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Paging */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center gap-4 mt-6">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => goToPage(page - 1)}>
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {page} of {totalPages}
+          </span>
+          <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => goToPage(page + 1)}>
+            Next
+          </Button>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default QuestionList;
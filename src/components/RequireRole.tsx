@@ -0,0 +1,48 @@
+import { ReactNode } from "react";
+import { Link, Navigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/contexts/AuthContext";
+import { AppRole, ROLE_LABELS } from "@/lib/roles";
+
+interface RequireRoleProps {
+  role: AppRole;
+  children: ReactNode;
+}
+
+// Route guard for staff pages. Signed-out users are sent to sign in first;
+// the database enforces the same roles on everything these pages do.
+const RequireRole = ({ role, children }: RequireRoleProps) => {
+  const { user, hasRole, rolesLoading } = useAuth();
+
+  if (rolesLoading) {
+    return (
+      <div className="container mx-auto px-4 py-6 max-w-5xl space-y-4">
+        <Skeleton className="h-8 w-1/3" />
+        <Skeleton className="h-40 w-full" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!hasRole(role)) {
+    return (
+      <div className="container mx-auto px-4 py-12 text-center">
+        <h1 className="text-2xl font-bold mb-4">Access denied</h1>
+        <p className="text-muted-foreground mb-6">
+          This page is only available to {ROLE_LABELS[role].label.toLowerCase()}s.
+        </p>
+        <Button asChild>
+          <Link to="/">Back to questions</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireRole;
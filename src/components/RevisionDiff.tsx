@@ -0,0 +1,84 @@
+import { Badge } from "@/components/ui/badge";
+import { diffWords, DiffPart, sideBySide } from "@/lib/diff";
+
+// Diff views shared by the revision history and the suggested edits queue
+
+const partClass = (part: DiffPart) =>
+  part.op === 'delete'
+    ? 'bg-red-100 text-red-900 line-through dark:bg-red-950 dark:text-red-200'
+    : part.op === 'insert'
+      ? 'bg-green-100 text-green-900 dark:bg-green-950 dark:text-green-200'
+      : '';
+
+export const InlineDiff = ({ before, after }: { before: string; after: string }) => (
+  <div className="whitespace-pre-wrap break-words font-mono text-sm">
+    {diffWords(before, after).map((part, i) => (
+      <span key={i} className={partClass(part)}>{part.text}</span>
+    ))}
+  </div>
+);
+
+export const SideBySideDiff = ({ before, after }: { before: string; after: string }) => (
+  <div className="overflow-x-auto rounded-md border font-mono text-sm">
+    <table className="w-full border-collapse">
+      <tbody>
+        {sideBySide(before, after).map((row, i) => (
+          <tr key={i} className="align-top">
+            {[row.left, row.right].map((cell, side) => (
+              <td
+                key={side}
+                className={`w-1/2 border-r last:border-r-0 ${
+                  !cell
+                    ? 'bg-muted/50'
+                    : row.op === 'delete' || (row.op === 'change' && side === 0)
+                      ? 'bg-red-50 dark:bg-red-950/40'
+                      : row.op === 'insert' || (row.op === 'change' && side === 1)
+                        ? 'bg-green-50 dark:bg-green-950/40'
+                        : ''
+                }`}
+              >
+                {cell && (
+                  <div className="flex">
+                    <span className="w-10 shrink-0 select-none pr-2 text-right text-muted-foreground">
+                      {cell.number}
+                    </span>
+                    <span className="whitespace-pre-wrap break-words px-2">
+                      {cell.parts
+                        ? cell.parts.map((part, j) => (
+                            <span key={j} className={partClass(part)}>{part.text}</span>
+                          ))
+                        : cell.text || ' '}
+                    </span>
+                  </div>
+                )}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export const TagsDiff = ({ before, after }: { before: string[]; after: string[] }) => {
+  const tags = [...after, ...before.filter((tag) => !after.includes(tag))];
+  return (
+    <div className="flex flex-wrap gap-2">
+      {tags.map((tag) => (
+        <Badge
+          key={tag}
+          variant="secondary"
+          className={
+            !before.includes(tag)
+              ? 'bg-green-100 text-green-900'
+              : !after.includes(tag)
+                ? 'bg-red-100 text-red-900 line-through'
+                : ''
+          }
+        >
+          {tag}
+        </Badge>
+      ))}
+    </div>
+  );
+};
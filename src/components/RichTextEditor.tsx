@@ -1,5 +1,5 @@
 
-import { useState } from "react";
+import { useEffect, useId, useLayoutEffect, useRef, useState } from "react";
 import { 
   Bold, 
   Italic, 
@@ -11,262 +11,739 @@ import {
   Smile,
   AlignLeft,
   AlignCenter,
-  AlignRight
+  AlignRight,
+  SquareCode
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import {
   Popover,
+  PopoverAnchor,
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  ResizableHandle,
+  ResizablePanel,
+  ResizablePanelGroup,
+} from "@/components/ui/resizable";
+import PostBody from "@/components/PostBody";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { findMentionQuery, formatMention } from "@/lib/mentions";
+import { CODE_LANGUAGES } from "@/lib/code-blocks";
+import { cn } from "@/lib/utils";
+import {
+  continueList,
+  EditorState,
+  indentLines,
+  insertAtSelection,
+  isInCodeBlock,
+  wrapSelection,
+} from "@/lib/editor";
+import { useEditHistory } from "@/hooks/use-edit-history";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { ACCEPTED_IMAGE_TYPES, uploadImage, validateImage } from "@/lib/image-upload";
+import { Progress } from "@/components/ui/progress";
+
+interface MentionCandidate {
+  id: string;
+  username: string;
+}
+
+type EditorMode = "write" | "preview" | "split";
+
+interface PendingUpload {
+  id: string;
+  name: string;
+  progress: number;
+}
+
+// Stands in for an image at the cursor until its upload finishes
+const uploadPlaceholder = (id: string) => `![Uploading image…](uploading:${id})`;
+
+const imageAltText = (fileName: string) =>
+  fileName.replace(/\.[^.]+$/, "").replace(/[[\]()]/g, "").trim() || "image";
 
 interface RichTextEditorProps {
   value: string;
   onChange: (value: string) => void;
   placeholder?: string;
   className?: string;
+  /**
+   * Called when image uploads start and once they have all finished. Until
+   * then the value holds placeholders, so forms should hold off on saving it.
+   */
+  onUploadingChange?: (uploading: boolean) => void;
 }
 
-const RichTextEditor = ({ value, onChange, placeholder, className }: RichTextEditorProps) => {
+const RichTextEditor = ({ value, onChange, placeholder, className, onUploadingChange }: RichTextEditorProps) => {
   const [showLinkDialog, setShowLinkDialog] = useState(false);
   const [linkUrl, setLinkUrl] = useState("");
   const [linkText, setLinkText] = useState("");
+  const [showCodeLanguages, setShowCodeLanguages] = useState(false);
+  const [mention, setMention] = useState<{ query: string; start: number } | null>(null);
+  const [activeMention, setActiveMention] = useState(0);
+  const [mode, setMode] = useState<EditorMode>("write");
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+  const ignoreScroll = useRef<HTMLElement | null>(null);
+  const lastSelection = useRef<[number, number]>([0, 0]);
+  const pendingSelection = useRef<[number, number] | null>(null);
+  const history = useEditHistory();
+  const fieldId = useId();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const [dragging, setDragging] = useState(false);
+
+  // Uploads finish after later renders, so they patch the latest value
+  const latestValue = useRef(value);
+  latestValue.current = value;
+
+  // Also reports false if the editor unmounts mid-upload
+  const uploading = uploads.length > 0;
+  useEffect(() => {
+    if (!uploading) return;
+    onUploadingChange?.(true);
+    return () => onUploadingChange?.(false);
+  }, [uploading, onUploadingChange]);
+
+  // Restore the caret after an edit once the new value has rendered
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!pendingSelection.current || !textarea) return;
+
+    textarea.focus();
+    textarea.setSelectionRange(...pendingSelection.current);
+    lastSelection.current = pendingSelection.current;
+    pendingSelection.current = null;
+  });
+
+  const currentState = (): EditorState => {
+    const textarea = textareaRef.current;
+    return {
+      value,
+      selectionStart: textarea?.selectionStart ?? value.length,
+      selectionEnd: textarea?.selectionEnd ?? value.length,
+    };
+  };
+
+  const showState = (next: EditorState) => {
+    pendingSelection.current = [next.selectionStart, next.selectionEnd];
+    if (next.value === value) {
+      textareaRef.current?.setSelectionRange(next.selectionStart, next.selectionEnd);
+      pendingSelection.current = null;
+    } else {
+      onChange(next.value);
+    }
+  };
+
+  // Apply a toolbar or shortcut edit as one undoable step
+  const applyEdit = (next: EditorState) => {
+    history.record(currentState());
+    showState(next);
+  };
+
+  const undo = () => {
+    const previous = history.undo(currentState());
+    if (previous) showState(previous);
+  };
+
+  const redo = () => {
+    const next = history.redo(currentState());
+    if (next) showState(next);
+  };
+
+  // Search usernames for the "@" autocomplete
+  const { data: mentionCandidates = [] } = useQuery({
+    queryKey: ['mention-search', mention?.query],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, username')
+        .ilike('username', `${mention?.query.replace(/[%_\\]/g, '\\$&')}%`)
+        .order('username')
+        .limit(6);
+
+      if (error) throw error;
+      return data.filter((p): p is MentionCandidate => !!p.username);
+    },
+    enabled: !!mention && mention.query.length > 0,
+  });
+
+  const showMentions = !!mention && mention.query.length > 0 && mentionCandidates.length > 0;
+
+  const updateMention = (text: string, caret: number) => {
+    const next = findMentionQuery(text, caret);
+    if (next?.query !== mention?.query) setActiveMention(0);
+    setMention(next);
+  };
+
+  const insertMention = (candidate: MentionCandidate) => {
+    if (!mention) return;
+
+    const token = `${formatMention(candidate.username, candidate.id)} `;
+    const { selectionEnd } = currentState();
+    applyEdit(insertAtSelection({ value, selectionStart: mention.start, selectionEnd }, token));
+    setMention(null);
+  };
+
+  // Returns true when the key was used by the @mention autocomplete
+  const handleMentionKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!showMentions) return false;
+
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveMention((activeMention + step + mentionCandidates.length) % mentionCandidates.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      insertMention(mentionCandidates[activeMention]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setMention(null);
+    } else {
+      return false;
+    }
+    return true;
+  };
+
+  const openLinkDialog = () => {
+    const { selectionStart, selectionEnd } = currentState();
+    setLinkText(value.slice(selectionStart, selectionEnd));
+    setShowLinkDialog(true);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (handleMentionKeyDown(e)) return;
+
+    const state = currentState();
+    const mod = e.ctrlKey || e.metaKey;
+    const key = e.key.toLowerCase();
+
+    if (mod && !e.altKey) {
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      } else if (key === "b") {
+        e.preventDefault();
+        applyEdit(wrapSelection(state, "**", "**"));
+      } else if (key === "i") {
+        e.preventDefault();
+        applyEdit(wrapSelection(state, "*", "*"));
+      } else if (key === "k") {
+        e.preventDefault();
+        openLinkDialog();
+      }
+      return;
+    }
+
+    // Tab indents inside code blocks; elsewhere it still moves focus
+    if (e.key === "Tab" && !e.altKey && isInCodeBlock(value, state.selectionStart)) {
+      e.preventDefault();
+      applyEdit(indentLines(state, e.shiftKey));
+      return;
+    }
+
+    if (e.key === "Enter" && !e.shiftKey && !e.altKey && !e.nativeEvent.isComposing) {
+      const next = isInCodeBlock(value, state.selectionStart) ? null : continueList(state);
+      if (next) {
+        e.preventDefault();
+        applyEdit(next);
+      }
+    }
+  };
+
+  // Keep the source and preview panes at the same relative scroll position.
+  // Setting one pane's scrollTop fires its scroll event, so that echo is skipped.
+  const syncScroll = (from: HTMLElement, to: HTMLElement | null) => {
+    if (ignoreScroll.current === from) {
+      ignoreScroll.current = null;
+      return;
+    }
+    if (!to || mode !== "split") return;
+
+    const fromMax = from.scrollHeight - from.clientHeight;
+    const target = fromMax > 0 ? (from.scrollTop / fromMax) * (to.scrollHeight - to.clientHeight) : 0;
+    if (Math.abs(to.scrollTop - target) < 1) return;
+
+    ignoreScroll.current = to;
+    to.scrollTop = target;
+  };
 
   const insertText = (before: string, after: string = "") => {
-    const textarea = document.querySelector('textarea') as HTMLTextAreaElement;
-    if (!textarea) return;
-
-    const start = textarea.selectionStart;
-    const end = textarea.selectionEnd;
-    const selectedText = value.substring(start, end);
-    
-    const newText = value.substring(0, start) + before + selectedText + after + value.substring(end);
-    onChange(newText);
-    
-    // Restore focus and selection
-    setTimeout(() => {
-      textarea.focus();
-      textarea.setSelectionRange(start + before.length, start + before.length + selectedText.length);
-    }, 0);
+    applyEdit(wrapSelection(currentState(), before, after));
   };
 
   const insertEmoji = (emoji: string) => {
-    const textarea = document.querySelector('textarea') as HTMLTextAreaElement;
-    if (!textarea) return;
-
-    const start = textarea.selectionStart;
-    const newText = value.substring(0, start) + emoji + value.substring(start);
-    onChange(newText);
-    
-    setTimeout(() => {
-      textarea.focus();
-      textarea.setSelectionRange(start + emoji.length, start + emoji.length);
-    }, 0);
+    applyEdit(insertAtSelection(currentState(), emoji));
   };
 
   const insertLink = () => {
     if (linkUrl && linkText) {
-      insertText(`[${linkText}](${linkUrl})`);
+      applyEdit(insertAtSelection(currentState(), `[${linkText}](${linkUrl})`));
       setLinkUrl("");
       setLinkText("");
       setShowLinkDialog(false);
     }
   };
 
+  const insertCodeBlock = (language: string) => {
+    setShowCodeLanguages(false);
+    insertText("\n```" + language + "\n", "\n```\n");
+  };
+
+  // Swap an upload placeholder for its result, keeping the caret where it was.
+  // Undo history gets the same swap, so undoing never restores a placeholder.
+  const replacePlaceholder = (placeholder: string, replacement: string) => {
+    history.rewrite(placeholder, replacement);
+
+    const current = latestValue.current;
+    const index = current.indexOf(placeholder);
+    if (index === -1) return;
+
+    const textarea = textareaRef.current;
+    if (textarea && document.activeElement === textarea) {
+      const shift = (position: number) =>
+        position > index ? position + replacement.length - placeholder.length : position;
+      pendingSelection.current = [shift(textarea.selectionStart), shift(textarea.selectionEnd)];
+    }
+
+    latestValue.current = current.slice(0, index) + replacement + current.slice(index + placeholder.length);
+    onChange(latestValue.current);
+  };
+
+  const uploadImages = (files: File[]) => {
+    if (!user) {
+      toast({
+        title: "Please log in",
+        description: "You need to be logged in to upload images.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const accepted = files.filter((file) => {
+      try {
+        validateImage(file);
+        return true;
+      } catch (error) {
+        toast({ title: "Can't upload image", description: (error as Error).message, variant: "destructive" });
+        return false;
+      }
+    });
+    if (accepted.length === 0) return;
+
+    const pending = accepted.map((file) => ({ id: crypto.randomUUID(), name: file.name, progress: 0 }));
+    applyEdit(insertAtSelection(currentState(), pending.map((upload) => uploadPlaceholder(upload.id)).join("\n")));
+    setUploads((current) => [...current, ...pending]);
+
+    pending.forEach(async (upload, i) => {
+      const file = accepted[i];
+      try {
+        const url = await uploadImage(file, user.id, (progress) =>
+          setUploads((current) => current.map((u) => (u.id === upload.id ? { ...u, progress } : u)))
+        );
+        replacePlaceholder(uploadPlaceholder(upload.id), `![${imageAltText(file.name)}](${url})`);
+      } catch (error) {
+        replacePlaceholder(uploadPlaceholder(upload.id), "");
+        toast({
+          title: `Couldn't upload ${file.name}`,
+          description: error instanceof Error ? error.message : "Please try again.",
+          variant: "destructive",
+        });
+      } finally {
+        setUploads((current) => current.filter((u) => u.id !== upload.id));
+      }
+    });
+  };
+
+  const imageFiles = (files: FileList) => Array.from(files).filter((file) => file.type.startsWith("image/"));
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = imageFiles(e.clipboardData.files);
+    if (files.length === 0) return;
+
+    e.preventDefault();
+    uploadImages(files);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+
+    e.preventDefault();
+    setDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    setDragging(false);
+    const files = imageFiles(e.dataTransfer.files);
+    if (files.length === 0) return;
+
+    e.preventDefault();
+    uploadImages(files);
+  };
+
   const commonEmojis = ["😀", "😊", "😂", "🤔", "👍", "👎", "❤️", "🔥", "💡", "✅", "❌", "⚠️"];
 
+  // The editor textarea, with the @mention autocomplete anchored to it
+  const editorPane = (
+    <Popover open={showMentions} onOpenChange={(open) => !open && setMention(null)}>
+      <PopoverAnchor asChild>
+        <div
+          className={cn(mode === "split" && "h-full", dragging && "ring-2 ring-primary ring-inset rounded-sm")}
+          onDragOver={handleDragOver}
+          onDragLeave={() => setDragging(false)}
+          onDrop={handleDrop}
+        >
+          <Textarea
+            ref={textareaRef}
+            value={value}
+            onChange={(e) => {
+              const [selectionStart, selectionEnd] = lastSelection.current;
+              history.record({ value, selectionStart, selectionEnd }, true);
+              onChange(e.target.value);
+              updateMention(e.target.value, e.target.selectionStart);
+            }}
+            onSelect={(e) => {
+              lastSelection.current = [e.currentTarget.selectionStart, e.currentTarget.selectionEnd];
+              updateMention(e.currentTarget.value, e.currentTarget.selectionStart);
+            }}
+            onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            onScroll={(e) => syncScroll(e.currentTarget, previewRef.current)}
+            placeholder={placeholder}
+            className={cn(
+              "border-0 resize-none focus-visible:ring-0",
+              mode === "split" ? "h-full min-h-0" : "min-h-[200px]"
+            )}
+          />
+        </div>
+      </PopoverAnchor>
+      <PopoverContent
+        className="w-64 p-0"
+        align="start"
+        onOpenAutoFocus={(e) => e.preventDefault()}
+        onInteractOutside={(e) => {
+          if (e.target === textareaRef.current) e.preventDefault();
+        }}
+      >
+        <Command shouldFilter={false} value={mentionCandidates[activeMention]?.id ?? ""}>
+          <CommandList>
+            <CommandGroup heading="Mention a user">
+              {mentionCandidates.map((candidate) => (
+                <CommandItem
+                  key={candidate.id}
+                  value={candidate.id}
+                  onSelect={() => insertMention(candidate)}
+                  onMouseDown={(e) => e.preventDefault()}
+                >
+                  @{candidate.username}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+
+  const previewPane = (
+    <div
+      ref={previewRef}
+      onScroll={(e) => syncScroll(e.currentTarget, textareaRef.current)}
+      className={cn("overflow-y-auto p-3", mode === "split" ? "h-full" : "min-h-[200px] max-h-[600px]")}
+    >
+      {value.trim() ? (
+        <PostBody content={value} />
+      ) : (
+        <p className="text-sm text-muted-foreground">Nothing to preview yet.</p>
+      )}
+    </div>
+  );
+
   return (
     <div className={`border rounded-md ${className}`}>
       {/* Toolbar */}
-      <div className="border-b p-2 flex flex-wrap gap-1">
-        {/* Text Formatting */}
-        <Button
-          type="button"
-          variant="ghost"
-          size="sm"
-          onClick={() => insertText("**", "**")}
-          title="Bold"
-        >
-          <Bold className="h-4 w-4" />
-        </Button>
+      <div className="border-b p-2 flex flex-wrap items-center justify-between gap-2">
+        <div className={cn("flex flex-wrap gap-1", mode === "preview" && "invisible")}>
+          {/* Text Formatting */}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => insertText("**", "**")}
+            title="Bold (Ctrl+B)"
+          >
+            <Bold className="h-4 w-4" />
+          </Button>
         
-        <Button
-          type="button"
-          variant="ghost"
-          size="sm"
-          onClick={() => insertText("*", "*")}
-          title="Italic"
-        >
-          <Italic className="h-4 w-4" />
-        </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => insertText("*", "*")}
+            title="Italic (Ctrl+I)"
+          >
+            <Italic className="h-4 w-4" />
+          </Button>
         
-        <Button
-          type="button"
-          variant="ghost"
-          size="sm"
-          onClick={() => insertText("~~", "~~")}
-          title="Strikethrough"
-        >
-          <Strikethrough className="h-4 w-4" />
-        </Button>
-
-        <div className="w-px h-6 bg-border mx-1" />
-
-        {/* Lists */}
-        <Button
-          type="button"
-          variant="ghost"
-          size="sm"
-          onClick={() => insertText("• ")}
-          title="Bullet List"
-        >
-          <List className="h-4 w-4" />
-        </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => insertText("~~", "~~")}
+            title="Strikethrough"
+          >
+            <Strikethrough className="h-4 w-4" />
+          </Button>
+
+          <div className="w-px h-6 bg-border mx-1" />
+
+          {/* Lists */}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => insertText("- ")}
+            title="Bullet List"
+          >
+            <List className="h-4 w-4" />
+          </Button>
         
-        <Button
-          type="button"
-          variant="ghost"
-          size="sm"
-          onClick={() => insertText("1. ")}
-          title="Numbered List"
-        >
-          <ListOrdered className="h-4 w-4" />
-        </Button>
-
-        <div className="w-px h-6 bg-border mx-1" />
-
-        {/* Alignment */}
-        <Button
-          type="button"
-          variant="ghost"
-          size="sm"
-          onClick={() => insertText("<div style='text-align: left'>", "</div>")}
-          title="Align Left"
-        >
-          <AlignLeft className="h-4 w-4" />
-        </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => insertText("1. ")}
+            title="Numbered List"
+          >
+            <ListOrdered className="h-4 w-4" />
+          </Button>
+
+          <div className="w-px h-6 bg-border mx-1" />
+
+          {/* Alignment */}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => insertText("<div style='text-align: left'>", "</div>")}
+            title="Align Left"
+          >
+            <AlignLeft className="h-4 w-4" />
+          </Button>
         
-        <Button
-          type="button"
-          variant="ghost"
-          size="sm"
-          onClick={() => insertText("<div style='text-align: center'>", "</div>")}
-          title="Align Center"
-        >
-          <AlignCenter className="h-4 w-4" />
-        </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => insertText("<div style='text-align: center'>", "</div>")}
+            title="Align Center"
+          >
+            <AlignCenter className="h-4 w-4" />
+          </Button>
         
-        <Button
-          type="button"
-          variant="ghost"
-          size="sm"
-          onClick={() => insertText("<div style='text-align: right'>", "</div>")}
-          title="Align Right"
-        >
-          <AlignRight className="h-4 w-4" />
-        </Button>
-
-        <div className="w-px h-6 bg-border mx-1" />
-
-        {/* Link */}
-        <Popover open={showLinkDialog} onOpenChange={setShowLinkDialog}>
-          <PopoverTrigger asChild>
-            <Button
-              type="button"
-              variant="ghost"
-              size="sm"
-              title="Insert Link"
-            >
-              <Link className="h-4 w-4" />
-            </Button>
-          </PopoverTrigger>
-          <PopoverContent className="w-80">
-            <div className="space-y-4">
-              <h4 className="font-medium">Insert Link</h4>
-              <div className="space-y-2">
-                <Label htmlFor="linkText">Link Text</Label>
-                <Input
-                  id="linkText"
-                  value={linkText}
-                  onChange={(e) => setLinkText(e.target.value)}
-                  placeholder="Enter link text"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="linkUrl">URL</Label>
-                <Input
-                  id="linkUrl"
-                  value={linkUrl}
-                  onChange={(e) => setLinkUrl(e.target.value)}
-                  placeholder="https://example.com"
-                />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => insertText("<div style='text-align: right'>", "</div>")}
+            title="Align Right"
+          >
+            <AlignRight className="h-4 w-4" />
+          </Button>
+
+          <div className="w-px h-6 bg-border mx-1" />
+
+          {/* Link */}
+          <Popover open={showLinkDialog} onOpenChange={(open) => (open ? openLinkDialog() : setShowLinkDialog(false))}>
+            <PopoverTrigger asChild>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                title="Insert Link (Ctrl+K)"
+              >
+                <Link className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-80">
+              <div className="space-y-4">
+                <h4 className="font-medium">Insert Link</h4>
+                <div className="space-y-2">
+                  <Label htmlFor={`${fieldId}-link-text`}>Link Text</Label>
+                  <Input
+                    id={`${fieldId}-link-text`}
+                    value={linkText}
+                    onChange={(e) => setLinkText(e.target.value)}
+                    placeholder="Enter link text"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`${fieldId}-link-url`}>URL</Label>
+                  <Input
+                    id={`${fieldId}-link-url`}
+                    value={linkUrl}
+                    onChange={(e) => setLinkUrl(e.target.value)}
+                    placeholder="https://example.com"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button onClick={insertLink} size="sm">Insert</Button>
+                  <Button 
+                    variant="outline" 
+                    onClick={() => setShowLinkDialog(false)} 
+                    size="sm"
+                  >
+                    Cancel
+                  </Button>
+                </div>
               </div>
-              <div className="flex gap-2">
-                <Button onClick={insertLink} size="sm">Insert</Button>
-                <Button 
-                  variant="outline" 
-                  onClick={() => setShowLinkDialog(false)} 
-                  size="sm"
-                >
-                  Cancel
-                </Button>
+            </PopoverContent>
+          </Popover>
+
+          {/* Image */}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            title="Upload Image (or paste / drop it in)"
+          >
+            <Image className="h-4 w-4" />
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_IMAGE_TYPES.join(",")}
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files) uploadImages(Array.from(e.target.files));
+              e.target.value = "";
+            }}
+          />
+
+          {/* Code block */}
+          <Popover open={showCodeLanguages} onOpenChange={setShowCodeLanguages}>
+            <PopoverTrigger asChild>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                title="Insert Code Block"
+              >
+                <SquareCode className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-56 p-0" align="start">
+              <Command>
+                <CommandInput placeholder="Language..." />
+                <CommandList>
+                  <CommandEmpty>No language found.</CommandEmpty>
+                  <CommandGroup>
+                    <CommandItem value="plain text" onSelect={() => insertCodeBlock("")}>
+                      Plain text
+                    </CommandItem>
+                    {CODE_LANGUAGES.map((language) => (
+                      <CommandItem
+                        key={language.id}
+                        value={language.label}
+                        onSelect={() => insertCodeBlock(language.id)}
+                      >
+                        {language.label}
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                </CommandList>
+              </Command>
+            </PopoverContent>
+          </Popover>
+
+          {/* Emoji */}
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                title="Insert Emoji"
+              >
+                <Smile className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64">
+              <div className="grid grid-cols-6 gap-2">
+                {commonEmojis.map((emoji) => (
+                  <Button
+                    key={emoji}
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => insertEmoji(emoji)}
+                    className="h-10 w-10"
+                  >
+                    {emoji}
+                  </Button>
+                ))}
               </div>
-            </div>
-          </PopoverContent>
-        </Popover>
-
-        {/* Image */}
-        <Button
-          type="button"
-          variant="ghost"
-          size="sm"
-          onClick={() => insertText("![Image description](image-url)")}
-          title="Insert Image"
-        >
-          <Image className="h-4 w-4" />
-        </Button>
-
-        {/* Emoji */}
-        <Popover>
-          <PopoverTrigger asChild>
-            <Button
-              type="button"
-              variant="ghost"
-              size="sm"
-              title="Insert Emoji"
-            >
-              <Smile className="h-4 w-4" />
-            </Button>
-          </PopoverTrigger>
-          <PopoverContent className="w-64">
-            <div className="grid grid-cols-6 gap-2">
-              {commonEmojis.map((emoji) => (
-                <Button
-                  key={emoji}
-                  type="button"
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => insertEmoji(emoji)}
-                  className="h-10 w-10"
-                >
-                  {emoji}
-                </Button>
-              ))}
-            </div>
-          </PopoverContent>
-        </Popover>
+            </PopoverContent>
+          </Popover>
+        </div>
+
+        <Tabs value={mode} onValueChange={(next) => setMode(next as EditorMode)}>
+          <TabsList className="h-8">
+            <TabsTrigger value="write" className="text-xs px-2">Write</TabsTrigger>
+            <TabsTrigger value="preview" className="text-xs px-2">Preview</TabsTrigger>
+            <TabsTrigger value="split" className="hidden sm:inline-flex text-xs px-2">Split</TabsTrigger>
+          </TabsList>
+        </Tabs>
       </div>
 
-      {/* Text Area */}
-      <Textarea
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        placeholder={placeholder}
-        className="border-0 resize-none min-h-[200px] focus-visible:ring-0"
-      />
+      {mode === "write" && editorPane}
+      {mode === "preview" && previewPane}
+      {mode === "split" && (
+        <ResizablePanelGroup direction="horizontal" className="!h-[400px]">
+          <ResizablePanel defaultSize={50} minSize={25}>
+            {editorPane}
+          </ResizablePanel>
+          <ResizableHandle withHandle />
+          <ResizablePanel defaultSize={50} minSize={25}>
+            {previewPane}
+          </ResizablePanel>
+        </ResizablePanelGroup>
+      )}
+
+      {/* Upload progress */}
+      {uploads.length > 0 && (
+        <div className="border-t p-2 space-y-2">
+          {uploads.map((upload) => (
+            <div key={upload.id} className="flex items-center gap-3 text-xs text-muted-foreground">
+              <span className="truncate max-w-[50%]">Uploading {upload.name}</span>
+              <Progress value={upload.progress} className="h-1.5 flex-1" />
+              <span className="w-8 text-right">{upload.progress}%</span>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
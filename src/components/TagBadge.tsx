@@ -0,0 +1,23 @@
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { tagPath } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+
+interface TagBadgeProps {
+  tag: string;
+  variant?: "secondary" | "outline";
+  className?: string;
+}
+
+// A tag that links to its tag page
+const TagBadge = ({ tag, variant = "secondary", className }: TagBadgeProps) => {
+  return (
+    <Link to={tagPath(tag)}>
+      <Badge variant={variant} className={cn("hover:bg-accent", className)}>
+        {tag}
+      </Badge>
+    </Link>
+  );
+};
+
+export default TagBadge;
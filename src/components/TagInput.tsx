@@ -0,0 +1,267 @@
+import { useMemo, useState } from "react";
+import { Command as CommandPrimitive } from "cmdk";
+import { AlertCircle, Plus, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Command, CommandGroup, CommandItem, CommandList } from "@/components/ui/command";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { markdownToText } from "@/lib/markdown";
+import { MAX_TAG_LENGTH, MAX_TAGS, normalizeTag, tagCandidates, tagError } from "@/lib/tags";
+
+const MAX_MATCHES = 8;
+const MAX_SUGGESTIONS = 5;
+
+interface TagInputProps {
+  id?: string;
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  /** Post text (title and body) to suggest existing tags from */
+  suggestFrom?: string;
+}
+
+// Tag combobox: type to see matching tags with their question counts, pick
+// one with the arrow keys and Enter, up to MAX_TAGS. Tags are normalized as
+// they're added, so "React" and "react" are the same tag, and creating a tag
+// nobody has used yet needs a confirmation.
+const TagInput = ({ id, tags, onChange, suggestFrom }: TagInputProps) => {
+  const [newTag, setNewTag] = useState("");
+  const [open, setOpen] = useState(false);
+  const [confirmingTag, setConfirmingTag] = useState<string | null>(null);
+
+  const typed = normalizeTag(newTag);
+  const typedError = typed ? tagError(typed) : null;
+  const search = useDebouncedValue(typedError ? "" : typed, 200);
+  const full = tags.length >= MAX_TAGS;
+
+  const { data: matches } = useQuery({
+    queryKey: ['tag-matches', search],
+    queryFn: async () => {
+      const pattern = search.replace(/[%_\\]/g, '\\$&');
+      const [
+        { data: found, error },
+        { data: exact, error: exactError },
+        { data: synonym, error: synonymError },
+      ] = await Promise.all([
+        supabase
+          .from('tags')
+          .select('slug, question_count')
+          .ilike('slug', `%${pattern}%`)
+          .order('question_count', { ascending: false })
+          .order('slug', { ascending: true })
+          .limit(MAX_MATCHES),
+        supabase
+          .from('tags')
+          .select('slug, question_count')
+          .eq('slug', search)
+          .maybeSingle(),
+        supabase
+          .from('tag_synonyms')
+          .select('target_slug, tags(slug, question_count)')
+          .eq('source_slug', search)
+          .eq('status', 'approved')
+          .maybeSingle(),
+      ]);
+
+      if (error) throw error;
+      if (exactError) throw exactError;
+      if (synonymError) throw synonymError;
+
+      // The exact match always shows first, however rarely it's used. A
+      // synonym is saved as its master tag, so offer that instead.
+      const first = exact ?? (synonym?.tags ? { ...synonym.tags, synonym: search } : null);
+      const others = (found ?? []).filter((tag) => tag.slug !== first?.slug && tag.slug !== search);
+      const tags: { slug: string; question_count: number; synonym?: string }[] = first ? [first, ...others] : others;
+      return { tags: tags.slice(0, MAX_MATCHES), exists: !!first };
+    },
+    enabled: !!search,
+    placeholderData: (previous) => previous,
+  });
+
+  const suggestText = useDebouncedValue(suggestFrom ?? "", 500);
+  const candidates = useMemo(() => tagCandidates(markdownToText(suggestText)), [suggestText]);
+
+  const { data: suggestions } = useQuery({
+    queryKey: ['tag-suggestions', candidates],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tags')
+        .select('slug, question_count')
+        .in('slug', candidates)
+        .gt('question_count', 0)
+        .order('question_count', { ascending: false })
+        .limit(MAX_SUGGESTIONS + MAX_TAGS);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: candidates.length > 0,
+  });
+
+  const addTag = (tag: string) => {
+    if (!tags.includes(tag) && tags.length < MAX_TAGS) {
+      onChange([...tags, tag]);
+    }
+    setNewTag("");
+  };
+
+  const removeTag = (tagToRemove: string) => {
+    onChange(tags.filter(tag => tag !== tagToRemove));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      // Never submit the surrounding form; Enter picks the highlighted tag
+      e.preventDefault();
+    } else if (e.key === "Backspace" && !newTag && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  // Results for an older search stay up while the new one loads; only offer to
+  // create a tag once we know it doesn't exist
+  const current = !!typed && search === typed && !!matches;
+  const shownMatches = current ? matches.tags.filter((tag) => !tags.includes(tag.slug)) : [];
+  const canCreate = current && !matches.exists && !tags.includes(typed);
+  const shownSuggestions = (suggestions ?? [])
+    .filter((tag) => !tags.includes(tag.slug))
+    .slice(0, MAX_SUGGESTIONS);
+
+  return (
+    <div className="space-y-3">
+      <Command shouldFilter={false} className="overflow-visible bg-transparent">
+        <div className="relative">
+          <div className="flex flex-wrap items-center gap-2 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2">
+            {tags.map((tag) => (
+              <Badge key={tag} variant="secondary" className="gap-1">
+                {tag}
+                <button
+                  type="button"
+                  onClick={() => removeTag(tag)}
+                  className="ml-1 hover:text-destructive"
+                  aria-label={`Remove ${tag}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+            <CommandPrimitive.Input
+              id={id}
+              value={newTag}
+              onValueChange={(value) => {
+                setNewTag(value);
+                setOpen(true);
+              }}
+              onKeyDown={handleKeyDown}
+              onFocus={() => setOpen(true)}
+              onBlur={() => setOpen(false)}
+              disabled={full}
+              maxLength={MAX_TAG_LENGTH + 10}
+              placeholder={
+                full
+                  ? `You can add up to ${MAX_TAGS} tags`
+                  : tags.length === 0
+                    ? `Add up to ${MAX_TAGS} tags to describe what your question is about`
+                    : "Add another tag"
+              }
+              className="flex-1 min-w-[12rem] bg-transparent outline-none placeholder:text-muted-foreground disabled:cursor-not-allowed"
+            />
+          </div>
+
+          {open && typed && !typedError && (shownMatches.length > 0 || canCreate) && (
+            <CommandList className="absolute z-50 top-full mt-1 w-full rounded-md border bg-popover text-popover-foreground shadow-md">
+              <CommandGroup>
+                {shownMatches.map((tag) => (
+                  <CommandItem
+                    key={tag.slug}
+                    value={tag.slug}
+                    onMouseDown={(e) => e.preventDefault()}
+                    onSelect={() => addTag(tag.slug)}
+                    className="justify-between"
+                  >
+                    <span>
+                      {tag.slug}
+                      {tag.synonym && <span className="text-muted-foreground"> (synonym: {tag.synonym})</span>}
+                    </span>
+                    <span className="text-xs text-muted-foreground">× {tag.question_count}</span>
+                  </CommandItem>
+                ))}
+                {canCreate && (
+                  <CommandItem
+                    value={`create:${typed}`}
+                    onMouseDown={(e) => e.preventDefault()}
+                    onSelect={() => setConfirmingTag(typed)}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Create new tag "{typed}"
+                  </CommandItem>
+                )}
+              </CommandGroup>
+            </CommandList>
+          )}
+        </div>
+      </Command>
+
+      {typedError && (
+        <p className="flex items-center gap-1 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4" />
+          {typedError}
+        </p>
+      )}
+
+      {!full && shownSuggestions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Suggested:</span>
+          {shownSuggestions.map((tag) => (
+            <Badge
+              key={tag.slug}
+              variant="outline"
+              className="cursor-pointer hover:bg-accent"
+              onClick={() => addTag(tag.slug)}
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              {tag.slug}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <AlertDialog open={!!confirmingTag} onOpenChange={(open) => !open && setConfirmingTag(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Create a new tag?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Nobody has used "{confirmingTag}" yet. New tags are only useful if others will use them too,
+              so check for an existing tag that fits first, and watch the spelling.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (confirmingTag) addTag(confirmingTag);
+                setConfirmingTag(null);
+              }}
+            >
+              Create tag
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default TagInput;
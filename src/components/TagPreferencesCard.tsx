@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { Eye, EyeOff, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { TagPreferences, useTagPreferences } from "@/hooks/use-tag-preferences";
+import { MAX_TAG_PATTERNS, normalizeTag, tagPatternError } from "@/lib/tags";
+
+type TagListKey = 'watched_tags' | 'ignored_tags';
+
+interface TagListEditorProps {
+  id: string;
+  label: string;
+  icon: React.ReactNode;
+  patterns: string[];
+  onChange: (patterns: string[]) => void;
+}
+
+const TagListEditor = ({ id, label, icon, patterns, onChange }: TagListEditorProps) => {
+  const [newPattern, setNewPattern] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const full = patterns.length >= MAX_TAG_PATTERNS;
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Enter" || !newPattern.trim()) return;
+    e.preventDefault();
+
+    const pattern = normalizeTag(newPattern);
+    const problem = tagPatternError(pattern);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    if (!patterns.includes(pattern)) {
+      if (full) {
+        setError(`You can add at most ${MAX_TAG_PATTERNS} tags here`);
+        return;
+      }
+      onChange([...patterns, pattern]);
+    }
+    setNewPattern("");
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="flex items-center gap-2">
+        {icon}
+        {label}
+      </Label>
+      {patterns.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {patterns.map((pattern) => (
+            <Badge key={pattern} variant="secondary" className="gap-1">
+              {pattern}
+              <button
+                type="button"
+                onClick={() => onChange(patterns.filter((p) => p !== pattern))}
+                className="ml-1 hover:text-destructive"
+                aria-label={`Remove ${pattern}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        id={id}
+        value={newPattern}
+        onChange={(e) => {
+          setNewPattern(e.target.value);
+          setError(null);
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder={full ? `Limit of ${MAX_TAG_PATTERNS} tags reached` : "Add a tag, e.g. react*"}
+        disabled={full}
+        className="h-8"
+      />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
+
+// Home page sidebar card for editing watched and ignored tags. A * in a tag
+// matches anything, so react* covers react-native and react-hooks.
+const TagPreferencesCard = () => {
+  const { toast } = useToast();
+  const { watched_tags, ignored_tags, hide_ignored_tags, updatePreferences } = useTagPreferences();
+
+  const save = (changes: Partial<TagPreferences>) => {
+    updatePreferences.mutate(changes, {
+      onError: (error) => {
+        toast({
+          title: "Error saving tags",
+          description: error.message,
+          variant: "destructive"
+        });
+      }
+    });
+  };
+
+  const setList = (key: TagListKey) => (patterns: string[]) => save({ [key]: patterns });
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-5">
+        <TagListEditor
+          id="watched-tags"
+          label="Watched Tags"
+          icon={<Eye className="h-4 w-4" />}
+          patterns={watched_tags}
+          onChange={setList('watched_tags')}
+        />
+
+        <TagListEditor
+          id="ignored-tags"
+          label="Ignored Tags"
+          icon={<EyeOff className="h-4 w-4" />}
+          patterns={ignored_tags}
+          onChange={setList('ignored_tags')}
+        />
+
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="hide-ignored" className="text-sm font-normal text-muted-foreground">
+            Hide ignored questions instead of dimming them
+          </Label>
+          <Switch
+            id="hide-ignored"
+            checked={hide_ignored_tags}
+            onCheckedChange={(checked) => save({ hide_ignored_tags: checked })}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TagPreferencesCard;
@@ -0,0 +1,332 @@
+import { useState } from "react";
+import { ArrowRight, Check, GitMerge, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { normalizeTag, tagError } from "@/lib/tags";
+import { formatTimeAgo } from "@/lib/utils";
+
+interface TagSynonym {
+  id: string;
+  source_slug: string;
+  target_slug: string;
+  status: 'pending' | 'approved' | 'rejected';
+  created_at: string;
+  reviewed_at: string | null;
+  proposer: { username: string | null } | null;
+  reviewer: { username: string | null } | null;
+}
+
+const SynonymPair = ({ synonym }: { synonym: Pick<TagSynonym, 'source_slug' | 'target_slug'> }) => (
+  <span className="inline-flex items-center gap-2">
+    <Badge variant="outline">{synonym.source_slug}</Badge>
+    <ArrowRight className="h-3 w-3 text-muted-foreground" />
+    <Badge variant="secondary">{synonym.target_slug}</Badge>
+  </span>
+);
+
+// Moderation tab for tag synonyms: propose a synonym for review, approve or
+// reject proposals, or merge two tags straight away. Approving retags every
+// question using the synonym.
+const TagSynonymsPanel = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [source, setSource] = useState("");
+  const [target, setTarget] = useState("");
+  // The merge waiting for confirmation
+  const [merging, setMerging] = useState<{ source_slug: string; target_slug: string } | null>(null);
+
+  const { data: synonyms, isLoading, error } = useQuery({
+    queryKey: ['tag-synonyms'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tag_synonyms')
+        .select(`
+          id, source_slug, target_slug, status, created_at, reviewed_at,
+          proposer:profiles!tag_synonyms_proposed_by_fkey(username),
+          reviewer:profiles!tag_synonyms_reviewed_by_fkey(username)
+        `)
+        .neq('status', 'rejected')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as TagSynonym[];
+    },
+  });
+
+  const pending = synonyms?.filter((synonym) => synonym.status === 'pending') ?? [];
+  const approved = synonyms?.filter((synonym) => synonym.status === 'approved') ?? [];
+
+  const onRetagged = (retagged: number, synonym: { source_slug: string; target_slug: string }) => {
+    queryClient.invalidateQueries({ queryKey: ['tag-synonyms'] });
+    queryClient.invalidateQueries({ queryKey: ['tags'] });
+    queryClient.invalidateQueries({ queryKey: ['questions'] });
+    toast({
+      title: "Tags merged",
+      description: `[${synonym.source_slug}] is now a synonym of [${synonym.target_slug}]; ${retagged} question${retagged !== 1 ? 's were' : ' was'} retagged.`
+    });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive"
+    });
+  };
+
+  const proposeMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('propose_tag_synonym', {
+        p_source: source,
+        p_target: target,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tag-synonyms'] });
+      setSource("");
+      setTarget("");
+      toast({
+        title: "Synonym proposed",
+        description: "It takes effect once a moderator approves it."
+      });
+    },
+    onError: onError("Error proposing synonym"),
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async (synonym: { source_slug: string; target_slug: string }) => {
+      const { data, error } = await supabase.rpc('merge_tags', {
+        p_source: synonym.source_slug,
+        p_target: synonym.target_slug,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (retagged, synonym) => {
+      setSource("");
+      setTarget("");
+      onRetagged(retagged, synonym);
+    },
+    onError: onError("Error merging tags"),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ synonym, approve }: { synonym: TagSynonym; approve: boolean }) => {
+      const { data, error } = await supabase.rpc('review_tag_synonym', {
+        p_synonym_id: synonym.id,
+        p_approve: approve,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (retagged, { synonym, approve }) => {
+      if (approve) {
+        onRetagged(retagged, synonym);
+      } else {
+        queryClient.invalidateQueries({ queryKey: ['tag-synonyms'] });
+        toast({
+          title: "Proposal rejected",
+          description: `[${synonym.source_slug}] stays a tag of its own.`
+        });
+      }
+    },
+    onError: onError("Error reviewing synonym"),
+  });
+
+  // Validates the form; returns the normalized pair or null after a toast
+  const formPair = () => {
+    const pair = { source_slug: normalizeTag(source), target_slug: normalizeTag(target) };
+    const problem = tagError(pair.source_slug) ?? tagError(pair.target_slug);
+
+    if (problem) {
+      toast({
+        title: "Check the tags",
+        description: problem,
+        variant: "destructive"
+      });
+      return null;
+    }
+
+    return pair;
+  };
+
+  const handlePropose = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formPair()) proposeMutation.mutate();
+  };
+
+  const busy = proposeMutation.isPending || mergeMutation.isPending || reviewMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="pb-3">
+          <h2 className="text-lg font-semibold">Add a synonym</h2>
+          <p className="text-sm text-muted-foreground">
+            Questions tagged with the synonym are retagged with the master tag, and new questions can't use it.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handlePropose} className="flex flex-col sm:flex-row sm:items-end gap-3">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="synonym-source">Synonym</Label>
+              <Input
+                id="synonym-source"
+                value={source}
+                onChange={(e) => setSource(e.target.value)}
+                placeholder="e.g. js"
+              />
+            </div>
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="synonym-target">Master tag</Label>
+              <Input
+                id="synonym-target"
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                placeholder="e.g. javascript"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" variant="outline" disabled={busy}>
+                Propose
+              </Button>
+              <Button
+                type="button"
+                disabled={busy}
+                onClick={() => {
+                  const pair = formPair();
+                  if (pair) setMerging(pair);
+                }}
+              >
+                <GitMerge className="h-4 w-4 mr-1" />
+                Merge now
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : error ? (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <p className="text-destructive">Error loading tag synonyms: {error.message}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="space-y-3">
+            <h2 className="text-lg font-semibold">Pending proposals</h2>
+            {pending.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No synonyms waiting for review.</p>
+            ) : (
+              <Card>
+                <CardContent className="divide-y p-0">
+                  {pending.map((synonym) => (
+                    <div key={synonym.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-6 py-4">
+                      <div className="space-y-1">
+                        <SynonymPair synonym={synonym} />
+                        <p className="text-xs text-muted-foreground">
+                          Proposed {formatTimeAgo(synonym.created_at)}
+                          {synonym.proposer?.username && <> by {synonym.proposer.username}</>}
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={busy}
+                          onClick={() => reviewMutation.mutate({ synonym, approve: false })}
+                        >
+                          <X className="h-4 w-4 mr-1" />
+                          Reject
+                        </Button>
+                        <Button
+                          size="sm"
+                          disabled={busy}
+                          onClick={() => reviewMutation.mutate({ synonym, approve: true })}
+                        >
+                          <Check className="h-4 w-4 mr-1" />
+                          Approve and merge
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <h2 className="text-lg font-semibold">Approved synonyms</h2>
+            {approved.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No tag synonyms yet.</p>
+            ) : (
+              <Card>
+                <CardContent className="divide-y p-0">
+                  {approved.map((synonym) => (
+                    <div key={synonym.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 px-6 py-3">
+                      <SynonymPair synonym={synonym} />
+                      <span className="text-xs text-muted-foreground">
+                        {synonym.reviewed_at && <>merged {formatTimeAgo(synonym.reviewed_at)}</>}
+                        {synonym.reviewer?.username && <> by {synonym.reviewer.username}</>}
+                      </span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </>
+      )}
+
+      <AlertDialog open={!!merging} onOpenChange={(open) => !open && setMerging(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge these tags?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every question tagged [{merging?.source_slug}] will be retagged [{merging?.target_slug}],
+              and [{merging?.source_slug}] becomes a synonym. This can't be undone from here.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (merging) mergeMutation.mutate(merging);
+                setMerging(null);
+              }}
+            >
+              Merge
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default TagSynonymsPanel;
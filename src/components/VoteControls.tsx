@@ -0,0 +1,68 @@
+import { ArrowUp, ArrowDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import PrivilegeTooltip from "@/components/PrivilegeTooltip";
+import { cn } from "@/lib/utils";
+
+export type VoteValue = -1 | 0 | 1;
+
+interface VoteControlsProps {
+  score: number;
+  userVote: VoteValue;
+  onVote: (value: VoteValue) => void;
+  disabled?: boolean;
+  /** Shown as a tooltip when voting is unavailable, e.g. on your own post */
+  disabledReason?: string | null;
+  /** Shown as a tooltip when only downvoting is unavailable */
+  downvoteDisabledReason?: string | null;
+}
+
+const VoteControls = ({
+  score,
+  userVote,
+  onVote,
+  disabled,
+  disabledReason,
+  downvoteDisabledReason,
+}: VoteControlsProps) => {
+  // A user can always retract an existing downvote
+  const downvoteReason = disabledReason || (userVote === -1 ? null : downvoteDisabledReason);
+
+  // Clicking the arrow that is already active retracts the vote
+  const handleClick = (value: VoteValue) => {
+    onVote(userVote === value ? 0 : value);
+  };
+
+  return (
+    <>
+      <PrivilegeTooltip reason={disabledReason}>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn("h-8 w-8", userVote === 1 && "text-primary bg-accent")}
+          onClick={() => handleClick(1)}
+          disabled={disabled || !!disabledReason}
+          title={disabledReason ? undefined : userVote === 1 ? "Undo upvote" : "Upvote"}
+          aria-pressed={userVote === 1}
+        >
+          <ArrowUp className="h-4 w-4" />
+        </Button>
+      </PrivilegeTooltip>
+      <span className="font-semibold text-xl">{score}</span>
+      <PrivilegeTooltip reason={downvoteReason}>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn("h-8 w-8", userVote === -1 && "text-destructive bg-accent")}
+          onClick={() => handleClick(-1)}
+          disabled={disabled || !!downvoteReason}
+          title={downvoteReason ? undefined : userVote === -1 ? "Undo downvote" : "Downvote"}
+          aria-pressed={userVote === -1}
+        >
+          <ArrowDown className="h-4 w-4" />
+        </Button>
+      </PrivilegeTooltip>
+    </>
+  );
+};
+
+export default VoteControls;
@@ -1,7 +1,8 @@
 
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { AppRole, roleAtLeast } from '@/lib/roles';
 
 interface AuthContextType {
   user: User | null;
@@ -10,6 +11,12 @@ interface AuthContextType {
   signIn: (email: string, password: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
   loading: boolean;
+  /** Staff roles granted to the current user; empty for plain users */
+  roles: AppRole[];
+  rolesLoading: boolean;
+  /** Whether the user has the role or a higher one */
+  hasRole: (role: AppRole) => boolean;
+  refreshRoles: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -26,6 +33,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [roles, setRoles] = useState<AppRole[]>([]);
+  const [rolesLoading, setRolesLoading] = useState(true);
 
   useEffect(() => {
     // Set up auth state listener
@@ -47,6 +56,29 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return () => subscription.unsubscribe();
   }, []);
 
+  const userId = user?.id;
+
+  const fetchRoles = useCallback(async () => {
+    if (!userId) {
+      setRoles([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', userId);
+
+    setRoles(error ? [] : data.map(r => r.role));
+  }, [userId]);
+
+  // Load the user's roles whenever a different user signs in
+  useEffect(() => {
+    if (loading) return;
+    setRolesLoading(true);
+    fetchRoles().finally(() => setRolesLoading(false));
+  }, [loading, fetchRoles]);
+
   const signUp = async (email: string, password: string, username?: string) => {
     const redirectUrl = `${window.location.origin}/`;
     
@@ -82,6 +114,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     signIn,
     signOut,
     loading,
+    roles,
+    rolesLoading: loading || rolesLoading,
+    hasRole: (role: AppRole) => roleAtLeast(roles, role),
+    refreshRoles: fetchRoles,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -0,0 +1,72 @@
+import { useCallback, useMemo, useRef } from "react"
+import type { EditorState } from "@/lib/editor"
+
+const MAX_ENTRIES = 200
+// Keystrokes closer together than this are undone as one step
+const TYPING_GROUP_MS = 1000
+
+/**
+ * Undo/redo stacks for a controlled textarea. Programmatic edits (toolbar,
+ * shortcuts) replace the value wholesale, which wipes the browser's own undo
+ * history, so the editor keeps its own.
+ */
+export function useEditHistory() {
+  const past = useRef<EditorState[]>([])
+  const future = useRef<EditorState[]>([])
+  const lastTyping = useRef(0)
+
+  /** Records the state before an edit. Typing edits are grouped together. */
+  const record = useCallback((previous: EditorState, typing = false) => {
+    const now = Date.now()
+    const grouped = typing && now - lastTyping.current < TYPING_GROUP_MS
+    lastTyping.current = typing ? now : 0
+
+    future.current = []
+    if (grouped) return
+
+    past.current.push(previous)
+    if (past.current.length > MAX_ENTRIES) past.current.shift()
+  }, [])
+
+  const undo = useCallback((current: EditorState) => {
+    const previous = past.current.pop()
+    if (!previous) return null
+
+    future.current.push(current)
+    lastTyping.current = 0
+    return previous
+  }, [])
+
+  const redo = useCallback((current: EditorState) => {
+    const next = future.current.pop()
+    if (!next) return null
+
+    past.current.push(current)
+    lastTyping.current = 0
+    return next
+  }, [])
+
+  /**
+   * Replaces text in every stored state, e.g. an upload placeholder once the
+   * upload finishes, so undo and redo never bring back stale text
+   */
+  const rewrite = useCallback((search: string, replacement: string) => {
+    const rewriteState = (state: EditorState): EditorState => {
+      const index = state.value.indexOf(search)
+      if (index === -1) return state
+
+      const shift = (position: number) =>
+        position > index ? Math.max(index, position - search.length) + replacement.length : position
+      return {
+        value: state.value.slice(0, index) + replacement + state.value.slice(index + search.length),
+        selectionStart: shift(state.selectionStart),
+        selectionEnd: shift(state.selectionEnd),
+      }
+    }
+
+    past.current = past.current.map(rewriteState)
+    future.current = future.current.map(rewriteState)
+  }, [])
+
+  return useMemo(() => ({ record, undo, redo, rewrite }), [record, undo, redo, rewrite])
+}
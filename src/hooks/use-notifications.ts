@@ -0,0 +1,113 @@
+import { useEffect } from "react"
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { useAuth } from "@/contexts/AuthContext"
+import { NOTIFICATION_SELECT, type Notification } from "@/lib/notifications"
+
+const RECENT_LIMIT = 5
+
+/**
+ * Unread count and latest notifications for the signed-in user, kept live
+ * through a realtime subscription on the notifications table. Mount this
+ * once (in the Navbar) so only one channel is open per user.
+ */
+export function useNotifications() {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  const { data: unreadCount = 0 } = useQuery({
+    queryKey: ["notifications", user?.id, "unread-count"],
+    queryFn: async () => {
+      if (!user) throw new Error("User must be logged in")
+
+      const { count, error } = await supabase
+        .from("notifications")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", user.id)
+        .is("read_at", null)
+
+      if (error) throw error
+      return count ?? 0
+    },
+    enabled: !!user,
+  })
+
+  const { data: recent } = useQuery({
+    queryKey: ["notifications", user?.id, "recent"],
+    queryFn: async () => {
+      if (!user) throw new Error("User must be logged in")
+
+      const { data, error } = await supabase
+        .from("notifications")
+        .select(NOTIFICATION_SELECT)
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false })
+        .limit(RECENT_LIMIT)
+
+      if (error) throw error
+      return data as Notification[]
+    },
+    enabled: !!user,
+  })
+
+  useEffect(() => {
+    if (!user) return
+
+    const channel = supabase
+      .channel(`notifications:${user.id}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "notifications", filter: `user_id=eq.${user.id}` },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["notifications", user.id] })
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [user, queryClient])
+
+  return { unreadCount, recent }
+}
+
+/** Mark a single notification, or all of them, as read */
+export function useMarkNotificationsRead() {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  const markRead = useMutation({
+    mutationFn: async (notificationId: string) => {
+      const { error } = await supabase
+        .from("notifications")
+        .update({ read_at: new Date().toISOString() })
+        .eq("id", notificationId)
+        .is("read_at", null)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notifications", user?.id] })
+    },
+  })
+
+  const markAllRead = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error("User must be logged in")
+
+      const { error } = await supabase
+        .from("notifications")
+        .update({ read_at: new Date().toISOString() })
+        .eq("user_id", user.id)
+        .is("read_at", null)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notifications", user?.id] })
+    },
+  })
+
+  return { markRead, markAllRead }
+}
@@ -0,0 +1,30 @@
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { useAuth } from "@/contexts/AuthContext"
+
+const POPULAR_TAG_COUNT = 10
+
+/**
+ * The most used tags with their question counts, for sidebars. Only loaded
+ * for signed-in users, since signed-out visitors get the welcome screen.
+ */
+export function usePopularTags() {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: ["tags", "popular-sidebar"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("tags")
+        .select("slug, question_count")
+        .gt("question_count", 0)
+        .order("question_count", { ascending: false })
+        .order("slug", { ascending: true })
+        .limit(POPULAR_TAG_COUNT)
+
+      if (error) throw error
+      return data
+    },
+    enabled: !!user,
+  })
+}
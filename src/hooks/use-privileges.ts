@@ -0,0 +1,74 @@
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { useAuth } from "@/contexts/AuthContext"
+
+export type PrivilegeKey =
+  | "comment"
+  | "downvote"
+  | "review_queue"
+  | "edit_posts"
+  | "close_vote"
+  | "moderator_tools"
+
+interface Privilege {
+  key: PrivilegeKey
+  name: string
+  description: string
+  min_reputation: number
+}
+
+/**
+ * Reputation-gated privileges for the current user. The database enforces the
+ * same thresholds; this only drives the UI. Signed-out users are not gated
+ * here since every action already asks them to log in first.
+ */
+export function usePrivileges() {
+  const { user, hasRole } = useAuth()
+
+  const { data: privileges } = useQuery({
+    queryKey: ["privileges"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("privileges")
+        .select("key, name, description, min_reputation")
+        .order("min_reputation", { ascending: true })
+
+      if (error) throw error
+      return data as Privilege[]
+    },
+    staleTime: Infinity,
+  })
+
+  const { data: reputation } = useQuery({
+    queryKey: ["reputation", user?.id],
+    queryFn: async () => {
+      if (!user) throw new Error("User must be logged in")
+
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("reputation")
+        .eq("id", user.id)
+        .single()
+
+      if (error) throw error
+      return data.reputation
+    },
+    enabled: !!user,
+  })
+
+  // Explains why the user lacks a privilege, or returns null when they have it
+  const missingReason = (key: PrivilegeKey): string | null => {
+    if (!user || !privileges || reputation === undefined) return null
+    // Staff roles carry privileges regardless of reputation, as in has_privilege()
+    if (hasRole("moderator") || (key !== "moderator_tools" && hasRole("trusted"))) return null
+
+    const privilege = privileges.find((p) => p.key === key)
+    if (!privilege || reputation >= privilege.min_reputation) return null
+
+    return `${privilege.name} requires ${privilege.min_reputation.toLocaleString()} reputation (you have ${reputation.toLocaleString()}).`
+  }
+
+  const can = (key: PrivilegeKey) => missingReason(key) === null
+
+  return { privileges, reputation, can, missingReason }
+}
@@ -0,0 +1,63 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { useAuth } from "@/contexts/AuthContext"
+
+export interface TagPreferences {
+  watched_tags: string[]
+  ignored_tags: string[]
+  hide_ignored_tags: boolean
+}
+
+const NO_PREFERENCES: TagPreferences = { watched_tags: [], ignored_tags: [], hide_ignored_tags: false }
+
+/**
+ * The signed-in user's watched and ignored tags (see tagMatchesPattern for
+ * the wildcard syntax), and a mutation to change them. Signed-out users have
+ * none.
+ */
+export function useTagPreferences() {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  const { data: preferences = NO_PREFERENCES } = useQuery({
+    queryKey: ["tag-preferences", user?.id],
+    queryFn: async () => {
+      if (!user) throw new Error("User must be logged in")
+
+      const { data, error } = await supabase
+        .from("user_tag_preferences")
+        .select("watched_tags, ignored_tags, hide_ignored_tags")
+        .eq("user_id", user.id)
+        .maybeSingle()
+
+      if (error) throw error
+      // Nobody has a row until they first change something
+      return data ?? NO_PREFERENCES
+    },
+    enabled: !!user,
+  })
+
+  const updatePreferences = useMutation({
+    mutationFn: async (changes: Partial<TagPreferences>) => {
+      if (!user) throw new Error("User must be logged in")
+
+      const { error } = await supabase
+        .from("user_tag_preferences")
+        .upsert({ user_id: user.id, ...changes })
+
+      if (error) throw error
+    },
+    // Apply straight away so the feed reshapes as you type
+    onMutate: (changes) => {
+      queryClient.setQueryData<TagPreferences>(["tag-preferences", user?.id], (current) => ({
+        ...(current ?? NO_PREFERENCES),
+        ...changes,
+      }))
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["tag-preferences", user?.id] })
+    },
+  })
+
+  return { ...preferences, updatePreferences }
+}
@@ -56,14 +56,431 @@ export type Database = {
             referencedRelation: "questions"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "answers_user_id_profiles_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      close_votes: {
+        Row: {
+          active: boolean
+          created_at: string
+          duplicate_of: string | null
+          id: string
+          question_id: string
+          reason: string | null
+          user_id: string
+          vote_type: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          duplicate_of?: string | null
+          id?: string
+          question_id: string
+          reason?: string | null
+          user_id: string
+          vote_type: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          duplicate_of?: string | null
+          id?: string
+          question_id?: string
+          reason?: string | null
+          user_id?: string
+          vote_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "close_votes_duplicate_of_fkey"
+            columns: ["duplicate_of"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "close_votes_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "close_votes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comment_votes: {
+        Row: {
+          comment_id: string
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          comment_id: string
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          comment_id?: string
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_votes_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comments: {
+        Row: {
+          author_name: string
+          content: string
+          created_at: string
+          id: string
+          question_id: string
+          target_id: string
+          target_type: string
+          updated_at: string
+          user_id: string
+          votes: number
+        }
+        Insert: {
+          author_name: string
+          content: string
+          created_at?: string
+          id?: string
+          question_id: string
+          target_id: string
+          target_type: string
+          updated_at?: string
+          user_id: string
+          votes?: number
+        }
+        Update: {
+          author_name?: string
+          content?: string
+          created_at?: string
+          id?: string
+          question_id?: string
+          target_id?: string
+          target_type?: string
+          updated_at?: string
+          user_id?: string
+          votes?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comments_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      flags: {
+        Row: {
+          created_at: string
+          details: string | null
+          flagged_by: string
+          handled_at: string | null
+          handled_by: string | null
+          id: string
+          question_id: string
+          reason: string
+          status: string
+          target_id: string
+          target_type: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          flagged_by: string
+          handled_at?: string | null
+          handled_by?: string | null
+          id?: string
+          question_id: string
+          reason: string
+          status?: string
+          target_id: string
+          target_type: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          flagged_by?: string
+          handled_at?: string | null
+          handled_by?: string | null
+          id?: string
+          question_id?: string
+          reason?: string
+          status?: string
+          target_id?: string
+          target_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "flags_flagged_by_fkey"
+            columns: ["flagged_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "flags_handled_by_fkey"
+            columns: ["handled_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "flags_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      moderation_log: {
+        Row: {
+          action: string
+          created_at: string
+          details: string | null
+          id: string
+          moderator_id: string | null
+          question_id: string | null
+          snapshot: Json | null
+          target_id: string
+          target_type: string
+          target_user_id: string | null
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          details?: string | null
+          id?: string
+          moderator_id?: string | null
+          question_id?: string | null
+          snapshot?: Json | null
+          target_id: string
+          target_type: string
+          target_user_id?: string | null
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          details?: string | null
+          id?: string
+          moderator_id?: string | null
+          question_id?: string | null
+          snapshot?: Json | null
+          target_id?: string
+          target_type?: string
+          target_user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "moderation_log_moderator_id_fkey"
+            columns: ["moderator_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "moderation_log_target_user_id_fkey"
+            columns: ["target_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      notifications: {
+        Row: {
+          actor_id: string | null
+          actor_name: string | null
+          answer_id: string | null
+          comment_id: string | null
+          created_at: string
+          data: Json
+          id: string
+          question_id: string | null
+          read_at: string | null
+          type: string
+          user_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_name?: string | null
+          answer_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          question_id?: string | null
+          read_at?: string | null
+          type: string
+          user_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          actor_name?: string | null
+          answer_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          question_id?: string | null
+          read_at?: string | null
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_answer_id_fkey"
+            columns: ["answer_id"]
+            isOneToOne: false
+            referencedRelation: "answers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_revisions: {
+        Row: {
+          body: string
+          created_at: string
+          editor_id: string | null
+          id: string
+          question_id: string
+          revision_number: number
+          summary: string | null
+          tags: string[] | null
+          target_id: string
+          target_type: string
+          title: string | null
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          editor_id?: string | null
+          id?: string
+          question_id: string
+          revision_number: number
+          summary?: string | null
+          tags?: string[] | null
+          target_id: string
+          target_type: string
+          title?: string | null
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          editor_id?: string | null
+          id?: string
+          question_id?: string
+          revision_number?: number
+          summary?: string | null
+          tags?: string[] | null
+          target_id?: string
+          target_type?: string
+          title?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_revisions_editor_id_fkey"
+            columns: ["editor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_revisions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      privileges: {
+        Row: {
+          description: string
+          key: string
+          min_reputation: number
+          name: string
+        }
+        Insert: {
+          description: string
+          key: string
+          min_reputation: number
+          name: string
+        }
+        Update: {
+          description?: string
+          key?: string
+          min_reputation?: number
+          name?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
           created_at: string
           full_name: string | null
           id: string
+          reputation: number
           updated_at: string
           username: string | null
         }
@@ -72,6 +489,7 @@ export type Database = {
           created_at?: string
           full_name?: string | null
           id: string
+          reputation?: number
           updated_at?: string
           username?: string | null
         }
@@ -80,6 +498,7 @@ export type Database = {
           created_at?: string
           full_name?: string | null
           id?: string
+          reputation?: number
           updated_at?: string
           username?: string | null
         }
@@ -88,10 +507,14 @@ export type Database = {
       questions: {
         Row: {
           author_name: string
+          close_reason: string | null
+          closed_at: string | null
           created_at: string
           description: string
+          duplicate_of: string | null
           has_accepted_answer: boolean | null
           id: string
+          locked_at: string | null
           tags: string[] | null
           title: string
           updated_at: string
@@ -101,10 +524,14 @@ export type Database = {
         }
         Insert: {
           author_name: string
+          close_reason?: string | null
+          closed_at?: string | null
           created_at?: string
           description: string
+          duplicate_of?: string | null
           has_accepted_answer?: boolean | null
           id?: string
+          locked_at?: string | null
           tags?: string[] | null
           title: string
           updated_at?: string
@@ -114,10 +541,14 @@ export type Database = {
         }
         Update: {
           author_name?: string
+          close_reason?: string | null
+          closed_at?: string | null
           created_at?: string
           description?: string
+          duplicate_of?: string | null
           has_accepted_answer?: boolean | null
           id?: string
+          locked_at?: string | null
           tags?: string[] | null
           title?: string
           updated_at?: string
@@ -125,6 +556,345 @@ export type Database = {
           views?: number | null
           votes?: number | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "questions_duplicate_of_fkey"
+            columns: ["duplicate_of"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "questions_user_id_profiles_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reputation_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          event_type: string
+          id: string
+          is_reversal: boolean
+          points: number
+          target_id: string
+          target_type: string
+          user_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          event_type: string
+          id?: string
+          is_reversal?: boolean
+          points: number
+          target_id: string
+          target_type: string
+          user_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          event_type?: string
+          id?: string
+          is_reversal?: boolean
+          points?: number
+          target_id?: string
+          target_type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reputation_events_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      site_settings: {
+        Row: {
+          description: string | null
+          key: string
+          updated_at: string
+          value: number
+        }
+        Insert: {
+          description?: string | null
+          key: string
+          updated_at?: string
+          value: number
+        }
+        Update: {
+          description?: string | null
+          key?: string
+          updated_at?: string
+          value?: number
+        }
+        Relationships: []
+      }
+      suggested_edits: {
+        Row: {
+          base_revision: number
+          body: string
+          created_at: string
+          id: string
+          question_id: string
+          reject_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          suggested_by: string
+          summary: string
+          tags: string[] | null
+          target_id: string
+          target_type: string
+          title: string | null
+        }
+        Insert: {
+          base_revision: number
+          body: string
+          created_at?: string
+          id?: string
+          question_id: string
+          reject_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          suggested_by: string
+          summary: string
+          tags?: string[] | null
+          target_id: string
+          target_type: string
+          title?: string | null
+        }
+        Update: {
+          base_revision?: number
+          body?: string
+          created_at?: string
+          id?: string
+          question_id?: string
+          reject_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          suggested_by?: string
+          summary?: string
+          tags?: string[] | null
+          target_id?: string
+          target_type?: string
+          title?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "suggested_edits_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "suggested_edits_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "suggested_edits_suggested_by_fkey"
+            columns: ["suggested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tag_synonyms: {
+        Row: {
+          created_at: string
+          id: string
+          proposed_by: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          source_slug: string
+          status: string
+          target_slug: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          proposed_by?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          source_slug: string
+          status?: string
+          target_slug: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          proposed_by?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          source_slug?: string
+          status?: string
+          target_slug?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tag_synonyms_proposed_by_fkey"
+            columns: ["proposed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tag_synonyms_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tag_synonyms_target_slug_fkey"
+            columns: ["target_slug"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["slug"]
+          },
+        ]
+      }
+      tags: {
+        Row: {
+          created_at: string
+          excerpt: string | null
+          id: string
+          question_count: number
+          slug: string
+          updated_at: string
+          wiki: string | null
+        }
+        Insert: {
+          created_at?: string
+          excerpt?: string | null
+          id?: string
+          question_count?: number
+          slug: string
+          updated_at?: string
+          wiki?: string | null
+        }
+        Update: {
+          created_at?: string
+          excerpt?: string | null
+          id?: string
+          question_count?: number
+          slug?: string
+          updated_at?: string
+          wiki?: string | null
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          granted_by: string | null
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_granted_by_fkey"
+            columns: ["granted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_roles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_tag_preferences: {
+        Row: {
+          hide_ignored_tags: boolean
+          ignored_tags: string[]
+          user_id: string
+          watched_tags: string[]
+        }
+        Insert: {
+          hide_ignored_tags?: boolean
+          ignored_tags?: string[]
+          user_id: string
+          watched_tags?: string[]
+        }
+        Update: {
+          hide_ignored_tags?: boolean
+          ignored_tags?: string[]
+          user_id?: string
+          watched_tags?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_tag_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      votes: {
+        Row: {
+          created_at: string
+          id: string
+          target_id: string
+          target_type: string
+          updated_at: string
+          user_id: string
+          value: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          target_id: string
+          target_type: string
+          updated_at?: string
+          user_id: string
+          value: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          target_id?: string
+          target_type?: string
+          updated_at?: string
+          user_id?: string
+          value?: number
+        }
         Relationships: []
       }
     }
@@ -132,10 +902,295 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_answer: {
+        Args: { p_answer_id: string }
+        Returns: boolean
+      }
+      apply_reputation: {
+        Args: {
+          p_actor_id: string
+          p_event_type: string
+          p_is_reversal: boolean
+          p_points: number
+          p_target_id: string
+          p_target_type: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      can_comment_on: {
+        Args: { p_target_id: string; p_target_type: string; p_user_id: string }
+        Returns: boolean
+      }
+      can_edit_post: {
+        Args: { p_owner_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      cast_vote: {
+        Args: { p_target_id: string; p_target_type: string; p_value: number }
+        Returns: number
+      }
+      count_tag_matches: {
+        Args: { p_patterns: string[]; p_tags: string[] }
+        Returns: number
+      }
+      create_notification: {
+        Args: {
+          p_actor_id: string
+          p_answer_id?: string
+          p_comment_id?: string
+          p_data?: Json
+          p_question_id: string
+          p_type: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      edit_post: {
+        Args: {
+          p_body: string
+          p_summary?: string
+          p_tags?: string[]
+          p_target_id: string
+          p_target_type: string
+          p_title?: string
+        }
+        Returns: number
+      }
+      flag_post: {
+        Args: { p_details?: string; p_reason: string; p_target_id: string; p_target_type: string }
+        Returns: string
+      }
+      flag_target: {
+        Args: { p_target_id: string; p_target_type: string }
+        Returns: {
+          author_id: string
+          question_id: string
+          snapshot: Json
+        }[]
+      }
+      grant_role: {
+        Args: { p_role: Database["public"]["Enums"]["app_role"]; p_user_id: string }
+        Returns: undefined
+      }
+      has_privilege: {
+        Args: { p_key: string; p_user_id: string }
+        Returns: boolean
+      }
+      has_role: {
+        Args: { p_role: Database["public"]["Enums"]["app_role"]; p_user_id: string }
+        Returns: boolean
+      }
+      is_moderator: {
+        Args: { p_user_id: string }
+        Returns: boolean
+      }
+      mentioned_user_ids: {
+        Args: { p_content: string }
+        Returns: string[]
+      }
+      merge_tags: {
+        Args: { p_source: string; p_target: string }
+        Returns: number
+      }
+      moderate_flagged_post: {
+        Args: { p_action: string; p_message?: string; p_target_id: string; p_target_type: string }
+        Returns: undefined
+      }
+      normalize_tag: {
+        Args: { p_tag: string }
+        Returns: string
+      }
+      normalize_tags: {
+        Args: { p_tags: string[] }
+        Returns: string[]
+      }
+      notify_username_mentions: {
+        Args: {
+          p_actor_id: string
+          p_answer_id: string
+          p_comment_id: string
+          p_content: string
+          p_question_id: string
+        }
+        Returns: undefined
+      }
+      pending_flags: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          author_id: string
+          author_name: string
+          content: string
+          details: string[]
+          first_flagged_at: string
+          flag_count: number
+          last_flagged_at: string
+          locked: boolean
+          question_id: string
+          question_title: string
+          reasons: string[]
+          target_id: string
+          target_type: string
+        }[]
+      }
+      pending_suggested_edits: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          base_revision: number
+          body: string
+          created_at: string
+          current_body: string
+          current_revision: number
+          current_tags: string[]
+          current_title: string
+          id: string
+          owner_id: string
+          question_id: string
+          question_title: string
+          suggested_by: string
+          suggester_name: string
+          summary: string
+          tags: string[]
+          target_id: string
+          target_type: string
+          title: string
+        }[]
+      }
+      propose_tag_synonym: {
+        Args: { p_source: string; p_target: string }
+        Returns: string
+      }
+      question_feed: {
+        Args: { p_ignored?: string[]; p_watched?: string[] }
+        Returns: {
+          answer_count: number
+          author_name: string
+          author_reputation: number
+          close_reason: string
+          closed_at: string
+          created_at: string
+          description: string
+          has_accepted_answer: boolean
+          id: string
+          ignored: boolean
+          interest: number
+          tags: string[]
+          title: string
+          user_id: string
+          views: number
+          votes: number
+          watched: boolean
+        }[]
+      }
+      resolve_tag_synonyms: {
+        Args: { p_tags: string[] }
+        Returns: string[]
+      }
+      review_suggested_edit: {
+        Args: {
+          p_action: string
+          p_body?: string
+          p_edit_id: string
+          p_reason?: string
+          p_tags?: string[]
+          p_title?: string
+        }
+        Returns: string
+      }
+      review_tag_synonym: {
+        Args: { p_approve: boolean; p_synonym_id: string }
+        Returns: number
+      }
+      revoke_role: {
+        Args: { p_role: Database["public"]["Enums"]["app_role"]; p_user_id: string }
+        Returns: undefined
+      }
+      rollback_post: {
+        Args: { p_revision_id: string }
+        Returns: number
+      }
+      search_questions: {
+        Args: { p_query: string }
+        Returns: {
+          answer_count: number
+          author_name: string
+          created_at: string
+          has_accepted_answer: boolean
+          id: string
+          matched_answer_id: string
+          rank: number
+          snippet: string
+          snippet_source: string
+          tags: string[]
+          title: string
+          title_highlight: string
+          user_id: string
+          views: number
+          votes: number
+        }[]
+      }
+      set_question_lock: {
+        Args: { p_locked: boolean; p_question_id: string }
+        Returns: undefined
+      }
+      setting: {
+        Args: { p_key: string }
+        Returns: number
+      }
+      suggest_edit: {
+        Args: {
+          p_body: string
+          p_summary: string
+          p_tags?: string[]
+          p_target_id: string
+          p_target_type: string
+          p_title?: string
+        }
+        Returns: string
+      }
+      tag_matches_pattern: {
+        Args: { p_pattern: string; p_tag: string }
+        Returns: boolean
+      }
+      tag_top_answerers: {
+        Args: { p_days?: number; p_limit?: number; p_tag: string }
+        Returns: {
+          post_count: number
+          reputation: number
+          score: number
+          user_id: string
+          username: string
+        }[]
+      }
+      tag_top_askers: {
+        Args: { p_days?: number; p_limit?: number; p_tag: string }
+        Returns: {
+          post_count: number
+          reputation: number
+          score: number
+          user_id: string
+          username: string
+        }[]
+      }
+      toggle_comment_upvote: {
+        Args: { p_comment_id: string }
+        Returns: number
+      }
+      valid_tag_patterns: {
+        Args: { p_patterns: string[] }
+        Returns: boolean
+      }
+      vote_to_close: {
+        Args: { p_duplicate_of?: string; p_question_id: string; p_reason: string }
+        Returns: boolean
+      }
+      vote_to_reopen: {
+        Args: { p_question_id: string }
+        Returns: boolean
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "trusted" | "moderator" | "admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -262,6 +1317,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["trusted", "moderator", "admin"],
+    },
   },
 } as const
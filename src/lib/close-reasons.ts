@@ -0,0 +1,33 @@
+// Reasons a question can be closed for. The keys match the close_reason
+// check constraint on questions and close_votes.
+
+export type CloseReason = "duplicate" | "unclear" | "off_topic" | "too_broad"
+
+export const CLOSE_REASONS: Record<CloseReason, { label: string; description: string }> = {
+  duplicate: {
+    label: "Duplicate",
+    description: "This question has been asked before and already has an answer.",
+  },
+  unclear: {
+    label: "Needs details or clarity",
+    description: "It's unclear what is being asked. The question should include the problem and what has been tried.",
+  },
+  off_topic: {
+    label: "Off-topic",
+    description: "This question isn't about a practical programming problem.",
+  },
+  too_broad: {
+    label: "Needs more focus",
+    description: "This question asks about too many things at once. It should focus on one problem.",
+  },
+}
+
+const QUESTION_LINK = /\/question\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/** Question id from a pasted question URL or bare id, if there is one */
+export function parseQuestionReference(input: string): string | null {
+  const trimmed = input.trim()
+  if (UUID.test(trimmed)) return trimmed.toLowerCase()
+  return trimmed.match(QUESTION_LINK)?.[1].toLowerCase() ?? null
+}
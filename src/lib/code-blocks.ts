@@ -0,0 +1,153 @@
+import hljs from "highlight.js/lib/core"
+import type { LanguageFn } from "highlight.js"
+
+// Fenced code blocks are highlighted in the browser. Only the highlight.js
+// core ships with the app; each grammar is its own chunk, loaded the first
+// time a post uses that language.
+
+type LanguageLoader = () => Promise<{ default: LanguageFn }>
+
+const LOADERS: Record<string, LanguageLoader> = {
+  bash: () => import("highlight.js/lib/languages/bash"),
+  c: () => import("highlight.js/lib/languages/c"),
+  cpp: () => import("highlight.js/lib/languages/cpp"),
+  csharp: () => import("highlight.js/lib/languages/csharp"),
+  css: () => import("highlight.js/lib/languages/css"),
+  diff: () => import("highlight.js/lib/languages/diff"),
+  go: () => import("highlight.js/lib/languages/go"),
+  java: () => import("highlight.js/lib/languages/java"),
+  javascript: () => import("highlight.js/lib/languages/javascript"),
+  json: () => import("highlight.js/lib/languages/json"),
+  kotlin: () => import("highlight.js/lib/languages/kotlin"),
+  markdown: () => import("highlight.js/lib/languages/markdown"),
+  php: () => import("highlight.js/lib/languages/php"),
+  python: () => import("highlight.js/lib/languages/python"),
+  ruby: () => import("highlight.js/lib/languages/ruby"),
+  rust: () => import("highlight.js/lib/languages/rust"),
+  sql: () => import("highlight.js/lib/languages/sql"),
+  swift: () => import("highlight.js/lib/languages/swift"),
+  typescript: () => import("highlight.js/lib/languages/typescript"),
+  xml: () => import("highlight.js/lib/languages/xml"),
+  yaml: () => import("highlight.js/lib/languages/yaml"),
+}
+
+const ALIASES: Record<string, string> = {
+  js: "javascript", jsx: "javascript", mjs: "javascript",
+  ts: "typescript", tsx: "typescript",
+  py: "python",
+  sh: "bash", shell: "bash", zsh: "bash", console: "bash",
+  html: "xml", svg: "xml",
+  "c++": "cpp", cc: "cpp", h: "c",
+  cs: "csharp", "c#": "csharp",
+  golang: "go",
+  rs: "rust",
+  rb: "ruby",
+  yml: "yaml",
+  md: "markdown",
+  kt: "kotlin",
+  patch: "diff",
+}
+
+/** Languages offered by the editor's code block picker */
+export const CODE_LANGUAGES = [
+  { id: "javascript", label: "JavaScript" },
+  { id: "typescript", label: "TypeScript" },
+  { id: "python", label: "Python" },
+  { id: "java", label: "Java" },
+  { id: "c", label: "C" },
+  { id: "cpp", label: "C++" },
+  { id: "csharp", label: "C#" },
+  { id: "go", label: "Go" },
+  { id: "rust", label: "Rust" },
+  { id: "php", label: "PHP" },
+  { id: "ruby", label: "Ruby" },
+  { id: "kotlin", label: "Kotlin" },
+  { id: "swift", label: "Swift" },
+  { id: "sql", label: "SQL" },
+  { id: "bash", label: "Bash" },
+  { id: "html", label: "HTML" },
+  { id: "css", label: "CSS" },
+  { id: "json", label: "JSON" },
+  { id: "yaml", label: "YAML" },
+  { id: "markdown", label: "Markdown" },
+  { id: "diff", label: "Diff" },
+]
+
+const languageLabel = (hint: string) =>
+  CODE_LANGUAGES.find((language) => language.id === hint)?.label ?? hint
+
+export function resolveLanguage(hint: string) {
+  const name = hint.toLowerCase()
+  const resolved = ALIASES[name] ?? name
+  return resolved in LOADERS ? resolved : null
+}
+
+const loading = new Map<string, Promise<void>>()
+
+function loadLanguage(name: string) {
+  if (!loading.has(name)) {
+    loading.set(
+      name,
+      LOADERS[name]().then((module) => hljs.registerLanguage(name, module.default))
+    )
+  }
+  return loading.get(name)
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+/**
+ * Highlights the code blocks in sanitized post HTML and adds a line number
+ * gutter and a copy button to each. The copy button is wired up by PostBody.
+ */
+export async function enhanceCodeBlocks(html: string) {
+  if (!html.includes("<pre>")) return html
+
+  const doc = new DOMParser().parseFromString(html, "text/html")
+  const blocks = Array.from(doc.querySelectorAll("pre > code"))
+
+  await Promise.all(
+    blocks.map(async (code) => {
+      const pre = code.parentElement as HTMLElement
+      const hint = /language-(\S+)/.exec(code.className)?.[1] ?? ""
+      const language = resolveLanguage(hint)
+      const source = (code.textContent ?? "").replace(/\n$/, "")
+
+      if (language) {
+        try {
+          await loadLanguage(language)
+          code.innerHTML = hljs.highlight(source, { language, ignoreIllegals: true }).value
+          code.classList.add("hljs")
+        } catch {
+          // Leave the block as plain text if the grammar can't be loaded
+        }
+      }
+
+      const lineCount = source.split("\n").length
+      const lineNumbers = Array.from({ length: lineCount }, (_, i) => i + 1).join("\n")
+
+      const wrapper = doc.createElement("div")
+      wrapper.setAttribute("data-code-block", "")
+      wrapper.className = "not-prose relative my-4 rounded-md border bg-zinc-950 text-zinc-100 text-sm"
+      wrapper.innerHTML = `
+        <div class="flex items-center justify-between border-b border-zinc-800 px-3 py-1.5 text-xs text-zinc-400">
+          <span>${escapeHtml(hint ? languageLabel(hint) : "Code")}</span>
+          <button type="button" data-copy-code class="rounded px-2 py-0.5 hover:bg-zinc-800 hover:text-zinc-100">Copy</button>
+        </div>`
+
+      pre.className = "flex overflow-x-auto p-3 font-mono leading-relaxed"
+      const gutter = doc.createElement("span")
+      gutter.setAttribute("aria-hidden", "true")
+      gutter.className = "select-none pr-4 text-right text-zinc-500 whitespace-pre"
+      gutter.textContent = lineNumbers
+      code.classList.add("flex-1", "whitespace-pre", "!bg-transparent", "!p-0")
+
+      pre.replaceWith(wrapper)
+      pre.prepend(gutter)
+      wrapper.append(pre)
+    })
+  )
+
+  return doc.body.innerHTML
+}
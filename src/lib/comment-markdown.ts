@@ -0,0 +1,39 @@
+// Comments support a small inline subset of markdown: **bold**, *italic* or
+// _italic_, `code` and [links](https://...). Everything else is plain text.
+
+export type CommentToken =
+  | { type: "text"; text: string }
+  | { type: "bold"; text: string }
+  | { type: "italic"; text: string }
+  | { type: "code"; text: string }
+  | { type: "link"; text: string; href: string }
+
+const INLINE_PATTERN =
+  /`([^`\n]+)`|\*\*([^*\n]+)\*\*|\*([^*\n]+)\*|\b_([^_\n]+)_\b|\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/g
+
+export function parseCommentMarkdown(source: string): CommentToken[] {
+  const tokens: CommentToken[] = []
+  let lastIndex = 0
+
+  for (const match of source.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0
+    if (index > lastIndex) {
+      tokens.push({ type: "text", text: source.slice(lastIndex, index) })
+    }
+
+    const [, code, bold, italic, underscored, linkText, href] = match
+    if (code !== undefined) tokens.push({ type: "code", text: code })
+    else if (bold !== undefined) tokens.push({ type: "bold", text: bold })
+    else if (italic !== undefined) tokens.push({ type: "italic", text: italic })
+    else if (underscored !== undefined) tokens.push({ type: "italic", text: underscored })
+    else tokens.push({ type: "link", text: linkText, href })
+
+    lastIndex = index + match[0].length
+  }
+
+  if (lastIndex < source.length) {
+    tokens.push({ type: "text", text: source.slice(lastIndex) })
+  }
+
+  return tokens
+}
@@ -0,0 +1,149 @@
+// Line and word diffs for comparing post revisions. A plain LCS table is
+// plenty for post-sized text; common prefixes and suffixes are skipped first.
+
+export type DiffOp = "equal" | "insert" | "delete"
+
+export interface DiffPart {
+  op: DiffOp
+  text: string
+}
+
+export interface DiffCell {
+  number: number
+  text: string
+  /** Word-level changes within the line, for lines that were modified */
+  parts?: DiffPart[]
+}
+
+export interface SideBySideRow {
+  op: DiffOp | "change"
+  left: DiffCell | null
+  right: DiffCell | null
+}
+
+// Beyond this many table cells the diff just replaces the whole middle section
+const MAX_TABLE_CELLS = 4_000_000
+
+function diffTokens(a: string[], b: string[]): { op: DiffOp; token: string }[] {
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const head = a.slice(0, prefix).map((token) => ({ op: "equal" as const, token }))
+  const tail = a.slice(a.length - suffix).map((token) => ({ op: "equal" as const, token }))
+  const x = a.slice(prefix, a.length - suffix)
+  const y = b.slice(prefix, b.length - suffix)
+  const middle: { op: DiffOp; token: string }[] = []
+
+  if ((x.length + 1) * (y.length + 1) > MAX_TABLE_CELLS) {
+    x.forEach((token) => middle.push({ op: "delete", token }))
+    y.forEach((token) => middle.push({ op: "insert", token }))
+    return [...head, ...middle, ...tail]
+  }
+
+  // lengths[i * width + j] = LCS length of x[i..] and y[j..]
+  const width = y.length + 1
+  const lengths = new Uint32Array((x.length + 1) * width)
+  for (let i = x.length - 1; i >= 0; i--) {
+    for (let j = y.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        x[i] === y[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < x.length && j < y.length) {
+    if (x[i] === y[j]) {
+      middle.push({ op: "equal", token: x[i] })
+      i++
+      j++
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      middle.push({ op: "delete", token: x[i++] })
+    } else {
+      middle.push({ op: "insert", token: y[j++] })
+    }
+  }
+  while (i < x.length) middle.push({ op: "delete", token: x[i++] })
+  while (j < y.length) middle.push({ op: "insert", token: y[j++] })
+
+  return [...head, ...middle, ...tail]
+}
+
+const splitWords = (text: string) => text.split(/(\s+)/).filter(Boolean)
+
+/** Word-level diff, with runs of the same kind merged together */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const parts: DiffPart[] = []
+  for (const { op, token } of diffTokens(splitWords(before), splitWords(after))) {
+    const last = parts[parts.length - 1]
+    if (last?.op === op) last.text += token
+    else parts.push({ op, text: token })
+  }
+  return parts
+}
+
+/** Line-level diff, one entry per line */
+export function diffLines(before: string, after: string): DiffPart[] {
+  return diffTokens(before.split("\n"), after.split("\n")).map(({ op, token }) => ({ op, text: token }))
+}
+
+/**
+ * Rows for a two-column diff. Deleted lines followed by inserted lines are
+ * paired up as changed lines, with word-level highlights on both sides.
+ */
+export function sideBySide(before: string, after: string): SideBySideRow[] {
+  const rows: SideBySideRow[] = []
+  let leftNumber = 0
+  let rightNumber = 0
+  let deleted: string[] = []
+  let inserted: string[] = []
+
+  const flush = () => {
+    const paired = Math.min(deleted.length, inserted.length)
+    for (let k = 0; k < Math.max(deleted.length, inserted.length); k++) {
+      if (k < paired) {
+        const words = diffWords(deleted[k], inserted[k])
+        rows.push({
+          op: "change",
+          left: { number: ++leftNumber, text: deleted[k], parts: words.filter((p) => p.op !== "insert") },
+          right: { number: ++rightNumber, text: inserted[k], parts: words.filter((p) => p.op !== "delete") },
+        })
+      } else if (k < deleted.length) {
+        rows.push({ op: "delete", left: { number: ++leftNumber, text: deleted[k] }, right: null })
+      } else {
+        rows.push({ op: "insert", left: null, right: { number: ++rightNumber, text: inserted[k] } })
+      }
+    }
+    deleted = []
+    inserted = []
+  }
+
+  for (const line of diffLines(before, after)) {
+    if (line.op === "delete") {
+      deleted.push(line.text)
+    } else if (line.op === "insert") {
+      inserted.push(line.text)
+    } else {
+      flush()
+      rows.push({
+        op: "equal",
+        left: { number: ++leftNumber, text: line.text },
+        right: { number: ++rightNumber, text: line.text },
+      })
+    }
+  }
+  flush()
+
+  return rows
+}
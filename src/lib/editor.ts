@@ -0,0 +1,114 @@
+// Text transformations behind RichTextEditor's toolbar and keyboard handling.
+// Each takes the textarea's value and selection and returns the new ones, so
+// the editor can apply them in one step and record them for undo.
+
+export interface EditorState {
+  value: string
+  selectionStart: number
+  selectionEnd: number
+}
+
+const INDENT = "  "
+
+const lineStartAt = (value: string, position: number) => value.lastIndexOf("\n", position - 1) + 1
+
+const lineEndAt = (value: string, position: number) => {
+  const end = value.indexOf("\n", position)
+  return end === -1 ? value.length : end
+}
+
+/** Replaces the selection with text, leaving the caret after it */
+export function insertAtSelection(state: EditorState, text: string): EditorState {
+  const { value, selectionStart, selectionEnd } = state
+  const caret = selectionStart + text.length
+  return {
+    value: value.slice(0, selectionStart) + text + value.slice(selectionEnd),
+    selectionStart: caret,
+    selectionEnd: caret,
+  }
+}
+
+/** Wraps the selection in before/after markers, keeping the inner text selected */
+export function wrapSelection(state: EditorState, before: string, after = ""): EditorState {
+  const { value, selectionStart, selectionEnd } = state
+  const selected = value.slice(selectionStart, selectionEnd)
+  return {
+    value: value.slice(0, selectionStart) + before + selected + after + value.slice(selectionEnd),
+    selectionStart: selectionStart + before.length,
+    selectionEnd: selectionStart + before.length + selected.length,
+  }
+}
+
+/** Whether a position is inside a ``` fenced code block */
+export function isInCodeBlock(value: string, position: number) {
+  const fences = value.slice(0, lineStartAt(value, position)).match(/^\s*```/gm)
+  return (fences?.length ?? 0) % 2 === 1
+}
+
+/**
+ * Indents (or with outdent, unindents) every line touched by the selection.
+ * A collapsed caret on indent just inserts the indent at the caret.
+ */
+export function indentLines(state: EditorState, outdent = false): EditorState {
+  const { value, selectionStart, selectionEnd } = state
+
+  if (!outdent && selectionStart === selectionEnd) {
+    return insertAtSelection(state, INDENT)
+  }
+
+  const start = lineStartAt(value, selectionStart)
+  const end = lineEndAt(value, selectionEnd > selectionStart && value[selectionEnd - 1] === "\n" ? selectionEnd - 1 : selectionEnd)
+  const lines = value.slice(start, end).split("\n")
+
+  let firstLineShift = 0
+  let totalShift = 0
+  const changed = lines.map((line, i) => {
+    let next: string
+    if (outdent) {
+      const removable = /^ {1,2}|^\t/.exec(line)?.[0].length ?? 0
+      next = line.slice(removable)
+    } else {
+      next = INDENT + line
+    }
+    const shift = next.length - line.length
+    if (i === 0) firstLineShift = shift
+    totalShift += shift
+    return next
+  })
+
+  return {
+    value: value.slice(0, start) + changed.join("\n") + value.slice(end),
+    selectionStart: Math.max(start, selectionStart + firstLineShift),
+    selectionEnd: Math.max(start, selectionEnd + totalShift),
+  }
+}
+
+const LIST_ITEM = /^(\s*)(?:([-*+•])|(\d+)([.)]))\s+(\[[ xX]\]\s+)?/
+
+/**
+ * Handles Enter on a list item: starts the next item with the same marker
+ * (numbered lists count up), or ends the list when the item is still empty.
+ * Returns null when the caret isn't on a list line.
+ */
+export function continueList(state: EditorState): EditorState | null {
+  const { value, selectionStart, selectionEnd } = state
+  const start = lineStartAt(value, selectionStart)
+  const line = value.slice(start, lineEndAt(value, selectionStart))
+  const match = LIST_ITEM.exec(line)
+
+  if (!match || selectionStart - start < match[0].length) return null
+
+  if (line.trim() === match[0].trim()) {
+    // Empty item: drop the marker and leave a blank line
+    return {
+      value: value.slice(0, start) + value.slice(start + line.length),
+      selectionStart: start,
+      selectionEnd: start,
+    }
+  }
+
+  const [, indent, bullet, number, delimiter, task] = match
+  const marker = bullet ? bullet : `${Number(number) + 1}${delimiter}`
+  const nextItem = `\n${indent}${marker} ${task ? "[ ] " : ""}`
+  return insertAtSelection({ value, selectionStart, selectionEnd }, nextItem)
+}
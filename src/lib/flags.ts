@@ -0,0 +1,34 @@
+// Reasons a question, answer or comment can be flagged for moderators. The
+// keys match the reason check constraint on flags.
+
+export type FlagReason = "spam" | "rude" | "low_quality" | "other"
+export type FlagTargetType = "question" | "answer" | "comment"
+
+export const FLAG_REASONS: Record<FlagReason, { label: string; description: string }> = {
+  spam: {
+    label: "Spam",
+    description: "Promotes a product or service without disclosing the affiliation.",
+  },
+  rude: {
+    label: "Rude or abusive",
+    description: "Harassment, bigotry or language a reasonable person would find offensive.",
+  },
+  low_quality: {
+    label: "Very low quality",
+    description: "Severe content or formatting problems that editing can't fix.",
+  },
+  other: {
+    label: "Something else",
+    description: "A problem not listed above that needs a moderator's attention.",
+  },
+}
+
+export type ModerationAction = "dismiss" | "delete" | "lock" | "unlock" | "warn"
+
+export const MODERATION_ACTIONS: Record<ModerationAction, string> = {
+  dismiss: "Dismissed flags on",
+  delete: "Deleted",
+  lock: "Locked",
+  unlock: "Unlocked",
+  warn: "Warned the author of",
+}
@@ -0,0 +1,105 @@
+import { supabase } from "@/integrations/supabase/client"
+
+// Images pasted, dropped or picked in the editor go to the post-images bucket
+// under the uploader's user id. The bucket enforces the same limits.
+
+export const POST_IMAGES_BUCKET = "post-images"
+export const ACCEPTED_IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"]
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024
+// Larger sources are refused before we try to decode them
+const MAX_SOURCE_BYTES = 25 * 1024 * 1024
+// Screenshots wider or taller than this are scaled down before upload
+const MAX_IMAGE_DIMENSION = 1920
+
+export class ImageUploadError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ImageUploadError"
+  }
+}
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / 1024 / 1024)} MB`
+
+export function validateImage(file: File) {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    throw new ImageUploadError(`${file.name} isn't a supported image. Use PNG, JPEG, GIF or WebP.`)
+  }
+  if (file.size > MAX_SOURCE_BYTES) {
+    throw new ImageUploadError(`${file.name} is too large. Images can be at most ${formatMegabytes(MAX_SOURCE_BYTES)}.`)
+  }
+}
+
+/**
+ * Scales an image down to fit MAX_IMAGE_DIMENSION. GIFs are left alone since
+ * redrawing them would drop the animation.
+ */
+export async function downscaleImage(file: File): Promise<Blob> {
+  if (file.type === "image/gif") return file
+
+  const bitmap = await createImageBitmap(file)
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height))
+  if (scale === 1) {
+    bitmap.close()
+    return file
+  }
+
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.round(bitmap.width * scale)
+  canvas.height = Math.round(bitmap.height * scale)
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+
+  const resized = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, file.type, 0.9))
+  return resized && resized.size < file.size ? resized : file
+}
+
+// PUT to a signed upload URL with XHR, since fetch can't report upload progress
+function putWithProgress(url: string, body: Blob, onProgress: (percent: number) => void) {
+  return new Promise<void>((resolve, reject) => {
+    const form = new FormData()
+    form.append("cacheControl", "3600")
+    form.append("", body)
+
+    const xhr = new XMLHttpRequest()
+    xhr.open("PUT", url)
+    xhr.setRequestHeader("x-upsert", "false")
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress(Math.round((e.loaded / e.total) * 100))
+    }
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve()
+        return
+      }
+      let message = "Upload failed"
+      try {
+        message = JSON.parse(xhr.responseText).message ?? message
+      } catch {
+        // Not a JSON error body
+      }
+      reject(new ImageUploadError(message))
+    }
+    xhr.onerror = () => reject(new ImageUploadError("Upload failed. Check your connection and try again."))
+    xhr.send(form)
+  })
+}
+
+/** Validates, downscales and uploads an image, returning its public URL */
+export async function uploadImage(file: File, userId: string, onProgress: (percent: number) => void) {
+  validateImage(file)
+
+  const body = await downscaleImage(file)
+  if (body.size > MAX_IMAGE_BYTES) {
+    throw new ImageUploadError(`${file.name} is too large. Images can be at most ${formatMegabytes(MAX_IMAGE_BYTES)}.`)
+  }
+
+  const extension = file.type.split("/")[1].replace("jpeg", "jpg")
+  const path = `${userId}/${crypto.randomUUID()}.${extension}`
+  const bucket = supabase.storage.from(POST_IMAGES_BUCKET)
+
+  const { data, error } = await bucket.createSignedUploadUrl(path)
+  if (error) throw new ImageUploadError(error.message)
+
+  await putWithProgress(data.signedUrl, body, onProgress)
+  return bucket.getPublicUrl(path).data.publicUrl
+}
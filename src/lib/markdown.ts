@@ -0,0 +1,74 @@
+import { Marked } from "marked"
+import DOMPurify from "dompurify"
+import { mentionPattern } from "@/lib/mentions"
+
+// Post bodies are markdown plus the few HTML snippets RichTextEditor inserts
+// (alignment divs). Everything goes through DOMPurify with a fixed whitelist,
+// so nothing a user types can add scripts, handlers or arbitrary styles.
+
+const ALLOWED_TAGS = [
+  "p", "br", "hr", "h1", "h2", "h3", "h4", "h5", "h6",
+  "strong", "em", "b", "i", "del", "s", "sup", "sub", "kbd",
+  "blockquote", "ul", "ol", "li", "code", "pre",
+  "a", "img", "div", "span",
+  "table", "thead", "tbody", "tr", "th", "td",
+]
+
+const ALLOWED_ATTR = ["href", "title", "src", "alt", "style", "class", "start", "align"]
+
+const TEXT_ALIGN = /^\s*text-align:\s*(left|center|right|justify)\s*;?\s*$/i
+const CODE_LANGUAGE = /^language-[\w+#-]+$/
+
+const marked = new Marked({ gfm: true, breaks: true })
+
+const purify = DOMPurify()
+
+purify.addHook("uponSanitizeAttribute", (node, data) => {
+  // Only alignment styles, and only language-* classes on code blocks
+  if (data.attrName === "style") {
+    data.keepAttr = TEXT_ALIGN.test(data.attrValue)
+  } else if (data.attrName === "class") {
+    data.keepAttr = node.nodeName === "CODE" && CODE_LANGUAGE.test(data.attrValue)
+  }
+})
+
+purify.addHook("afterSanitizeAttributes", (node) => {
+  if (node.nodeName !== "A") return
+
+  const href = node.getAttribute("href") ?? ""
+  node.setAttribute("rel", "nofollow noopener")
+  if (/^https?:\/\//i.test(href)) {
+    node.setAttribute("target", "_blank")
+  }
+  if (href.startsWith("/users/")) {
+    node.setAttribute("data-mention", "")
+  }
+})
+
+// Turn editor output into plain markdown before parsing
+function preprocess(source: string) {
+  return source
+    // Mention tokens become links to the profile
+    .replace(mentionPattern(), "[@$1](/users/$2)")
+    // The editor's bullet button inserts "• " rather than a markdown list marker
+    .replace(/^(\s*)• /gm, "$1- ")
+    // Put the alignment div's contents on their own lines so markdown inside
+    // them is still parsed instead of passed through as raw HTML
+    .replace(
+      /<div style=['"](text-align:\s*(?:left|center|right))['"]>([\s\S]*?)<\/div>/g,
+      (_, style: string, inner: string) => `<div style="${style}">\n\n${inner.trim()}\n\n</div>`
+    )
+}
+
+/** Renders post markdown to sanitized HTML */
+export function renderMarkdown(source: string) {
+  const html = marked.parse(preprocess(source), { async: false })
+  return purify.sanitize(html, { ALLOWED_TAGS, ALLOWED_ATTR })
+}
+
+/** Plain text version of a post body, for excerpts in question lists */
+export function markdownToText(source: string) {
+  const html = renderMarkdown(source).replace(/<\/(p|div|li|h[1-6]|pre|blockquote|tr|td|th)>|<br\s*\/?>/g, "$& ")
+  const text = new DOMParser().parseFromString(html, "text/html").body.textContent ?? ""
+  return text.replace(/\s+/g, " ").trim()
+}
@@ -0,0 +1,49 @@
+// Mentions are stored as @[username](user:<profile id>) so they keep pointing
+// at the right person even if the username changes later.
+
+export interface Mention {
+  username: string
+  userId: string
+}
+
+export type MentionSegment = { type: "text"; text: string } | ({ type: "mention" } & Mention)
+
+const MENTION_SOURCE =
+  "@\\[([^\\]\\n]+)\\]\\(user:([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})\\)"
+
+export const mentionPattern = () => new RegExp(MENTION_SOURCE, "g")
+
+export function formatMention(username: string, userId: string) {
+  return `@[${username}](user:${userId})`
+}
+
+export function splitMentions(source: string): MentionSegment[] {
+  const segments: MentionSegment[] = []
+  let lastIndex = 0
+
+  for (const match of source.matchAll(mentionPattern())) {
+    const index = match.index ?? 0
+    if (index > lastIndex) {
+      segments.push({ type: "text", text: source.slice(lastIndex, index) })
+    }
+    segments.push({ type: "mention", username: match[1], userId: match[2] })
+    lastIndex = index + match[0].length
+  }
+
+  if (lastIndex < source.length) {
+    segments.push({ type: "text", text: source.slice(lastIndex) })
+  }
+
+  return segments
+}
+
+/**
+ * Finds an in-progress mention ending at the caret, e.g. "@jo" while typing.
+ * Returns the partial username and where the "@" starts, or null.
+ */
+export function findMentionQuery(text: string, caret: number) {
+  const match = /(^|[^\w@])@([\w.-]{0,30})$/.exec(text.slice(0, caret))
+  if (!match) return null
+
+  return { query: match[2], start: caret - match[2].length - 1 }
+}
@@ -0,0 +1,50 @@
+export type NotificationType =
+  | "answer"
+  | "accepted"
+  | "vote_milestone"
+  | "mention"
+  | "comment"
+  | "moderator_warning"
+
+export interface Notification {
+  id: string
+  type: NotificationType
+  actor_name: string | null
+  question_id: string | null
+  answer_id: string | null
+  comment_id: string | null
+  data: { milestone?: number; message?: string }
+  read_at: string | null
+  created_at: string
+  questions: { title: string } | null
+}
+
+export const NOTIFICATION_SELECT =
+  "id, type, actor_name, question_id, answer_id, comment_id, data, read_at, created_at, questions(title)"
+
+// Human readable summary and destination of a notification
+export function describeNotification(notification: Notification) {
+  const actor = notification.actor_name || "Someone"
+  const title = notification.questions?.title ?? "a deleted question"
+  const post = notification.answer_id ? "answer" : "question"
+  const link = notification.question_id ? `/question/${notification.question_id}` : "/notifications"
+
+  switch (notification.type) {
+    case "answer":
+      return { title: "New answer on your question", description: `${actor} answered "${title}"`, link }
+    case "accepted":
+      return { title: "Your answer was accepted", description: `${actor} accepted your answer on "${title}"`, link }
+    case "vote_milestone":
+      return {
+        title: `Your ${post} reached ${notification.data.milestone} votes`,
+        description: `Your ${post} on "${title}" is getting noticed`,
+        link,
+      }
+    case "mention":
+      return { title: "You were mentioned", description: `${actor} mentioned you on "${title}"`, link }
+    case "comment":
+      return { title: `New comment on your ${post}`, description: `${actor} commented on "${title}"`, link }
+    case "moderator_warning":
+      return { title: "A moderator sent you a warning", description: notification.data.message ?? "", link }
+  }
+}
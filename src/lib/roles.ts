@@ -0,0 +1,28 @@
+import type { Database } from "@/integrations/supabase/types"
+
+// Staff roles, lowest first. Each role includes the ones before it, matching
+// has_role() in the database. Everyone without a role is a plain user.
+export type AppRole = Database["public"]["Enums"]["app_role"]
+
+export const APP_ROLES: AppRole[] = ["trusted", "moderator", "admin"]
+
+export const ROLE_LABELS: Record<AppRole, { label: string; description: string }> = {
+  trusted: {
+    label: "Trusted user",
+    description: "Has every reputation privilege except the moderator tools.",
+  },
+  moderator: {
+    label: "Moderator",
+    description: "Handles flags, locks threads and can delete any post.",
+  },
+  admin: {
+    label: "Admin",
+    description: "Manages roles and site settings, on top of moderating.",
+  },
+}
+
+/** Whether the granted roles include `role` or a higher one */
+export function roleAtLeast(roles: AppRole[], role: AppRole) {
+  const needed = APP_ROLES.indexOf(role)
+  return roles.some((r) => APP_ROLES.indexOf(r) >= needed)
+}
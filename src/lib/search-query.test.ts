@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest"
+import { buildSearchFilters, buildTextQuery, parseSearchQuery, SearchQueryError } from "@/lib/search-query"
+
+const parseError = (input: string) => {
+  try {
+    parseSearchQuery(input)
+  } catch (error) {
+    if (error instanceof SearchQueryError) return error
+    throw error
+  }
+  throw new Error(`Expected ${input} to be rejected`)
+}
+
+describe("parseSearchQuery", () => {
+  it("splits free text into terms, phrases and exclusions", () => {
+    const filters = parseSearchQuery('hooks "use effect" -class -"class component"')
+
+    expect(filters.terms).toEqual(["hooks"])
+    expect(filters.phrases).toEqual(["use effect"])
+    expect(filters.excludedTerms).toEqual(["class"])
+    expect(filters.excludedPhrases).toEqual(["class component"])
+  })
+
+  it("treats a lone dash as a term, not an exclusion", () => {
+    expect(parseSearchQuery("a - b").terms).toEqual(["a", "-", "b"])
+  })
+
+  it("reads [tag] and -[tag], normalizing tag names", () => {
+    const filters = parseSearchQuery("[React Hooks] [typescript] -[jquery]")
+
+    expect(filters.tags).toEqual(["react-hooks", "typescript"])
+    expect(filters.excludedTags).toEqual(["jquery"])
+  })
+
+  it("reads user:, with or without quotes", () => {
+    expect(parseSearchQuery("user:sarah_dev").user).toBe("sarah_dev")
+    expect(parseSearchQuery('user:"jane doe" hooks')).toMatchObject({ user: "jane doe", terms: ["hooks"] })
+  })
+
+  it("reads is:accepted, -is:accepted and is:unanswered", () => {
+    expect(parseSearchQuery("is:accepted").accepted).toBe(true)
+    expect(parseSearchQuery("-is:accepted").accepted).toBe(false)
+    expect(parseSearchQuery("is:unanswered").unanswered).toBe(true)
+  })
+
+  it("reads score: comparisons, ranges and exact values", () => {
+    expect(parseSearchQuery("score:>=5").score).toEqual({ min: 5 })
+    expect(parseSearchQuery("score:>5").score).toEqual({ min: 6 })
+    expect(parseSearchQuery("score:<=10").score).toEqual({ max: 10 })
+    expect(parseSearchQuery("score:<10").score).toEqual({ max: 9 })
+    expect(parseSearchQuery("score:1..10").score).toEqual({ min: 1, max: 10 })
+    expect(parseSearchQuery("score:-2..").score).toEqual({ min: -2 })
+    expect(parseSearchQuery("score:3").score).toEqual({ min: 3, max: 3 })
+  })
+
+  it("reads answers:", () => {
+    expect(parseSearchQuery("answers:0").answers).toEqual({ min: 0, max: 0 })
+    expect(parseSearchQuery("answers:>=2").answers).toEqual({ min: 2 })
+  })
+
+  it("reads created: periods and ranges as half-open date ranges", () => {
+    expect(parseSearchQuery("created:2026-01..2026-06").created).toEqual({ from: "2026-01-01", to: "2026-07-01" })
+    expect(parseSearchQuery("created:2026").created).toEqual({ from: "2026-01-01", to: "2027-01-01" })
+    expect(parseSearchQuery("created:2024-02-29").created).toEqual({ from: "2024-02-29", to: "2024-03-01" })
+    expect(parseSearchQuery("created:..2025-12").created).toEqual({ to: "2026-01-01" })
+  })
+
+  it("leaves unknown operators as free text", () => {
+    expect(parseSearchQuery("http://example.com").terms).toEqual(["http://example.com"])
+  })
+
+  it("combines everything in one query", () => {
+    const filters = parseSearchQuery(
+      '[react] user:sarah_dev is:accepted score:>=5 created:2026-01..2026-06 "use effect" -class'
+    )
+
+    expect(filters).toEqual({
+      terms: [],
+      phrases: ["use effect"],
+      excludedTerms: ["class"],
+      excludedPhrases: [],
+      tags: ["react"],
+      excludedTags: [],
+      user: "sarah_dev",
+      accepted: true,
+      score: { min: 5 },
+      created: { from: "2026-01-01", to: "2026-07-01" },
+    })
+  })
+})
+
+describe("parseSearchQuery errors", () => {
+  it("rejects unknown is: values", () => {
+    expect(parseError("is:closed").message).toBe(
+      "Unknown filter is:closed. Use is:accepted, -is:accepted or is:unanswered"
+    )
+    expect(parseError("-is:unanswered").message).toBe(
+      "Unknown filter -is:unanswered. Use is:accepted, -is:accepted or is:unanswered"
+    )
+  })
+
+  it("rejects bad number ranges", () => {
+    expect(parseError("score:10..1").message).toBe("The score: range in score:10..1 starts after it ends")
+    expect(parseError("score:lots").message).toBe(
+      "Invalid value for score: in score:lots. Expected a whole number like 5, >=5, <10 or 1..10"
+    )
+    expect(parseError("answers:..").message).toBe(
+      "Invalid value for answers: in answers:... Expected a whole number like 5, >=5, <10 or 1..10"
+    )
+    expect(parseError("answers:<0").message).toBe("answers: can't be negative in answers:<0")
+  })
+
+  it("rejects bad date ranges", () => {
+    expect(parseError("created:2026-06..2026-01").message).toBe(
+      "The created: range in created:2026-06..2026-01 starts after it ends"
+    )
+    expect(parseError("created:2026-13").message).toBe(
+      'Invalid date "2026-13" in created:2026-13. Use YYYY, YYYY-MM or YYYY-MM-DD, e.g. created:2026-01..2026-06'
+    )
+    expect(parseError("created:2025-02-29").message).toBe(
+      'Invalid date "2025-02-29" in created:2025-02-29. Use YYYY, YYYY-MM or YYYY-MM-DD, e.g. created:2026-01..2026-06'
+    )
+    expect(parseError("created:..").message).toBe("Empty date range in created:... Use e.g. created:2026-01..2026-06")
+  })
+
+  it("rejects unterminated quotes and brackets", () => {
+    expect(parseError('hooks "use effect').message).toBe('Missing closing " in "use effect')
+    expect(parseError('user:"jane doe').message).toBe('Missing closing " in user:"jane doe')
+    expect(parseError("[react hooks").message).toBe("Missing closing ] in [react")
+  })
+
+  it("rejects operators without a value", () => {
+    expect(parseError("user:").message).toBe("Missing value after user: in user:")
+    expect(parseError('user:""').message).toBe('Missing value after user: in user:""')
+    expect(parseError("score: 5").message).toBe("Missing value after score: in score:")
+    expect(parseError("[]").message).toBe("Empty tag [] in search")
+  })
+
+  it("rejects negated operators other than is:", () => {
+    expect(parseError("-user:sarah_dev").message).toBe("user: can't be negated in -user:sarah_dev")
+  })
+
+  it("reports the offending token", () => {
+    expect(parseError("hooks score:abc").token).toBe("score:abc")
+  })
+})
+
+describe("buildTextQuery", () => {
+  it("rebuilds the full-text part in websearch syntax", () => {
+    const filters = parseSearchQuery('[react] hooks "use effect" -class -"class component"')
+
+    expect(buildTextQuery(filters)).toBe('hooks "use effect" -class -"class component"')
+  })
+})
+
+describe("buildSearchFilters", () => {
+  const build = (input: string) => buildSearchFilters(parseSearchQuery(input))
+
+  it("returns no filters for free text only", () => {
+    expect(build('hooks "use effect" -class')).toEqual([])
+  })
+
+  it("matches included tags with cs and excluded tags with not.ov", () => {
+    expect(build("[react] [c#] -[jquery]")).toEqual([
+      { column: "tags", operator: "cs", value: '{"react","c#"}' },
+      { column: "tags", operator: "not.ov", value: '{"jquery"}' },
+    ])
+  })
+
+  it("matches user: exactly, escaping LIKE wildcards", () => {
+    expect(build("user:sarah_dev")).toEqual([{ column: "author_name", operator: "ilike", value: "sarah\\_dev" }])
+    expect(build('user:"100%\\done"')).toEqual([
+      { column: "author_name", operator: "ilike", value: "100\\%\\\\done" },
+    ])
+  })
+
+  it("maps is:accepted, -is:accepted and is:unanswered", () => {
+    expect(build("is:accepted")).toEqual([{ column: "has_accepted_answer", operator: "is", value: "true" }])
+    expect(build("-is:accepted")).toEqual([{ column: "has_accepted_answer", operator: "is", value: "false" }])
+    expect(build("is:unanswered")).toEqual([{ column: "answer_count", operator: "eq", value: "0" }])
+  })
+
+  it("maps score: and answers: ranges to inclusive bounds", () => {
+    expect(build("score:1..10")).toEqual([
+      { column: "votes", operator: "gte", value: "1" },
+      { column: "votes", operator: "lte", value: "10" },
+    ])
+    expect(build("score:>5")).toEqual([{ column: "votes", operator: "gte", value: "6" }])
+    expect(build("answers:<3")).toEqual([{ column: "answer_count", operator: "lte", value: "2" }])
+  })
+
+  it("maps created: to a half-open date range", () => {
+    expect(build("created:2026-01..2026-06")).toEqual([
+      { column: "created_at", operator: "gte", value: "2026-01-01" },
+      { column: "created_at", operator: "lt", value: "2026-07-01" },
+    ])
+    expect(build("created:..2025-12")).toEqual([{ column: "created_at", operator: "lt", value: "2026-01-01" }])
+  })
+})
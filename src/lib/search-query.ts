@@ -0,0 +1,332 @@
+// Parser for the advanced search syntax, e.g.
+//   [react] user:sarah_dev is:accepted score:>=5 created:2026-01..2026-06 "use effect" -class
+// Free text, quoted phrases and -exclusions go to full-text search; everything
+// else becomes a column filter on the search_questions() results.
+
+import { normalizeTag } from "@/lib/tags"
+
+export interface NumberRange {
+  /** Inclusive lower bound */
+  min?: number
+  /** Inclusive upper bound */
+  max?: number
+}
+
+export interface DateRange {
+  /** Inclusive start, as an ISO date */
+  from?: string
+  /** Exclusive end, as an ISO date */
+  to?: string
+}
+
+export interface SearchFilters {
+  terms: string[]
+  phrases: string[]
+  excludedTerms: string[]
+  excludedPhrases: string[]
+  tags: string[]
+  excludedTags: string[]
+  user?: string
+  accepted?: boolean
+  unanswered?: boolean
+  score?: NumberRange
+  answers?: NumberRange
+  created?: DateRange
+}
+
+export class SearchQueryError extends Error {
+  constructor(message: string, public readonly token: string) {
+    super(message)
+    this.name = "SearchQueryError"
+  }
+}
+
+interface Token {
+  raw: string
+  negated: boolean
+  kind: "word" | "phrase" | "tag"
+  value: string
+}
+
+const OPERATORS = ["user", "is", "score", "answers", "created"] as const
+type Operator = (typeof OPERATORS)[number]
+
+const isOperator = (key: string): key is Operator => (OPERATORS as readonly string[]).includes(key)
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  const readUntil = (close: string, start: number, raw: () => string) => {
+    const end = input.indexOf(close, start)
+    if (end === -1) {
+      throw new SearchQueryError(`Missing closing ${close} in ${raw()}`, raw())
+    }
+    return end
+  }
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++
+      continue
+    }
+
+    const start = i
+    const negated = input[i] === "-" && i + 1 < input.length && !/\s/.test(input[i + 1])
+    if (negated) i++
+
+    if (input[i] === '"') {
+      const end = readUntil('"', i + 1, () => input.slice(start))
+      const value = input.slice(i + 1, end).trim()
+      i = end + 1
+      if (value) tokens.push({ raw: input.slice(start, i), negated, kind: "phrase", value })
+      continue
+    }
+
+    if (input[i] === "[") {
+      const end = readUntil("]", i + 1, () => input.slice(start).split(/\s/)[0])
+      const value = input.slice(i + 1, end).trim()
+      i = end + 1
+      if (!value) throw new SearchQueryError("Empty tag [] in search", input.slice(start, i))
+      tokens.push({ raw: input.slice(start, i), negated, kind: "tag", value })
+      continue
+    }
+
+    // A bare word, possibly an operator with a quoted value like user:"jane doe"
+    while (i < input.length && !/\s/.test(input[i])) {
+      if (input[i] === '"' && input[i - 1] === ":") {
+        i = readUntil('"', i + 1, () => input.slice(start)) + 1
+        break
+      }
+      i++
+    }
+    const raw = input.slice(start, i)
+    tokens.push({ raw, negated, kind: "word", value: negated ? raw.slice(1) : raw })
+  }
+
+  return tokens
+}
+
+function parseNumber(text: string, operator: string, raw: string) {
+  if (!/^-?\d+$/.test(text)) {
+    throw new SearchQueryError(
+      `Invalid value for ${operator}: in ${raw}. Expected a whole number like 5, >=5, <10 or 1..10`,
+      raw
+    )
+  }
+  return parseInt(text, 10)
+}
+
+function parseNumberRange(value: string, operator: string, raw: string): NumberRange {
+  const comparison = /^(>=|<=|>|<)(.*)$/.exec(value)
+  if (comparison) {
+    const n = parseNumber(comparison[2], operator, raw)
+    switch (comparison[1]) {
+      case ">=": return { min: n }
+      case ">": return { min: n + 1 }
+      case "<=": return { max: n }
+      default: return { max: n - 1 }
+    }
+  }
+
+  if (value.includes("..")) {
+    const [from, to] = value.split("..")
+    const range: NumberRange = {}
+    if (from) range.min = parseNumber(from, operator, raw)
+    if (to) range.max = parseNumber(to, operator, raw)
+    if (!from && !to) parseNumber("", operator, raw)
+    if (range.min !== undefined && range.max !== undefined && range.min > range.max) {
+      throw new SearchQueryError(`The ${operator}: range in ${raw} starts after it ends`, raw)
+    }
+    return range
+  }
+
+  const n = parseNumber(value, operator, raw)
+  return { min: n, max: n }
+}
+
+const pad = (n: number) => String(n).padStart(2, "0")
+
+// Returns the start of the period a date names and the start of the next one
+function parseDatePeriod(text: string, raw: string) {
+  const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(text)
+  const invalid = () =>
+    new SearchQueryError(
+      `Invalid date "${text}" in ${raw}. Use YYYY, YYYY-MM or YYYY-MM-DD, e.g. created:2026-01..2026-06`,
+      raw
+    )
+  if (!match) throw invalid()
+
+  const year = Number(match[1])
+  const month = match[2] ? Number(match[2]) : undefined
+  const day = match[3] ? Number(match[3]) : undefined
+
+  if (month !== undefined && (month < 1 || month > 12)) throw invalid()
+  if (day !== undefined) {
+    const daysInMonth = new Date(Date.UTC(year, month as number, 0)).getUTCDate()
+    if (day < 1 || day > daysInMonth) throw invalid()
+  }
+
+  const start = new Date(Date.UTC(year, (month ?? 1) - 1, day ?? 1))
+  const end = new Date(start)
+  if (day !== undefined) end.setUTCDate(end.getUTCDate() + 1)
+  else if (month !== undefined) end.setUTCMonth(end.getUTCMonth() + 1)
+  else end.setUTCFullYear(end.getUTCFullYear() + 1)
+
+  const iso = (d: Date) => `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`
+  return { from: iso(start), to: iso(end) }
+}
+
+function parseDateRange(value: string, raw: string): DateRange {
+  if (!value.includes("..")) return parseDatePeriod(value, raw)
+
+  const [from, to] = value.split("..")
+  if (!from && !to) {
+    throw new SearchQueryError(`Empty date range in ${raw}. Use e.g. created:2026-01..2026-06`, raw)
+  }
+
+  const range: DateRange = {}
+  if (from) range.from = parseDatePeriod(from, raw).from
+  if (to) range.to = parseDatePeriod(to, raw).to
+  if (range.from && range.to && range.from >= range.to) {
+    throw new SearchQueryError(`The created: range in ${raw} starts after it ends`, raw)
+  }
+  return range
+}
+
+const unquote = (value: string) =>
+  value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1).trim() : value
+
+/** Parses a search box query. Throws SearchQueryError when it is malformed. */
+export function parseSearchQuery(input: string): SearchFilters {
+  const filters: SearchFilters = {
+    terms: [],
+    phrases: [],
+    excludedTerms: [],
+    excludedPhrases: [],
+    tags: [],
+    excludedTags: [],
+  }
+
+  for (const token of tokenize(input)) {
+    if (token.kind === "phrase") {
+      (token.negated ? filters.excludedPhrases : filters.phrases).push(token.value)
+      continue
+    }
+
+    if (token.kind === "tag") {
+      (token.negated ? filters.excludedTags : filters.tags).push(normalizeTag(token.value))
+      continue
+    }
+
+    const operator = /^([a-z]+):(.*)$/.exec(token.value)
+    if (!operator || !isOperator(operator[1])) {
+      (token.negated ? filters.excludedTerms : filters.terms).push(token.value)
+      continue
+    }
+
+    const [, key, rawValue] = operator
+    const value = unquote(rawValue)
+    if (!value) {
+      throw new SearchQueryError(`Missing value after ${key}: in ${token.raw}`, token.raw)
+    }
+    if (token.negated && key !== "is") {
+      throw new SearchQueryError(`${key}: can't be negated in ${token.raw}`, token.raw)
+    }
+
+    switch (key) {
+      case "user":
+        filters.user = value
+        break
+      case "is":
+        if (value === "accepted") {
+          filters.accepted = !token.negated
+        } else if (value === "unanswered" && !token.negated) {
+          filters.unanswered = true
+        } else {
+          throw new SearchQueryError(
+            `Unknown filter ${token.raw}. Use is:accepted, -is:accepted or is:unanswered`,
+            token.raw
+          )
+        }
+        break
+      case "score":
+        filters.score = parseNumberRange(value, key, token.raw)
+        break
+      case "answers":
+        filters.answers = parseNumberRange(value, key, token.raw)
+        if (filters.answers.max !== undefined && filters.answers.max < 0) {
+          throw new SearchQueryError(`answers: can't be negative in ${token.raw}`, token.raw)
+        }
+        break
+      case "created":
+        filters.created = parseDateRange(value, token.raw)
+        break
+    }
+  }
+
+  return filters
+}
+
+/** Full-text part of the query in websearch_to_tsquery() syntax */
+export function buildTextQuery(filters: SearchFilters) {
+  const quote = (phrase: string) => `"${phrase.replace(/"/g, "")}"`
+  return [
+    ...filters.terms,
+    ...filters.phrases.map(quote),
+    ...filters.excludedTerms.map((term) => `-${term}`),
+    ...filters.excludedPhrases.map((phrase) => `-${quote(phrase)}`),
+  ].join(" ")
+}
+
+export interface PostgrestFilter {
+  column: string
+  operator: string
+  value: string
+}
+
+const arrayLiteral = (values: string[]) =>
+  `{${values.map((v) => `"${v.replace(/["\\]/g, "\\$&")}"`).join(",")}}`
+
+const escapeLike = (value: string) => value.replace(/[%_\\]/g, "\\$&")
+
+const rangeFilters = (column: string, range: NumberRange | undefined): PostgrestFilter[] => [
+  ...(range?.min !== undefined ? [{ column, operator: "gte", value: String(range.min) }] : []),
+  ...(range?.max !== undefined ? [{ column, operator: "lte", value: String(range.max) }] : []),
+]
+
+/**
+ * Column filters for a query against search_questions(), to be applied with
+ * the Supabase query builder's .filter(column, operator, value).
+ */
+export function buildSearchFilters(filters: SearchFilters): PostgrestFilter[] {
+  const result: PostgrestFilter[] = []
+
+  if (filters.tags.length > 0) {
+    result.push({ column: "tags", operator: "cs", value: arrayLiteral(filters.tags) })
+  }
+  if (filters.excludedTags.length > 0) {
+    result.push({ column: "tags", operator: "not.ov", value: arrayLiteral(filters.excludedTags) })
+  }
+  if (filters.user) {
+    result.push({ column: "author_name", operator: "ilike", value: escapeLike(filters.user) })
+  }
+  if (filters.accepted !== undefined) {
+    result.push({ column: "has_accepted_answer", operator: "is", value: String(filters.accepted) })
+  }
+  if (filters.unanswered) {
+    result.push({ column: "answer_count", operator: "eq", value: "0" })
+  }
+
+  result.push(...rangeFilters("votes", filters.score))
+  result.push(...rangeFilters("answer_count", filters.answers))
+
+  if (filters.created?.from) {
+    result.push({ column: "created_at", operator: "gte", value: filters.created.from })
+  }
+  if (filters.created?.to) {
+    result.push({ column: "created_at", operator: "lt", value: filters.created.to })
+  }
+
+  return result
+}
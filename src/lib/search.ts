@@ -0,0 +1,28 @@
+// search_questions() wraps matched terms in these control characters rather
+// than HTML, so highlighted snippets can be rendered as plain React text.
+export const HIGHLIGHT_START = "\u0002"
+export const HIGHLIGHT_END = "\u0003"
+
+export interface HighlightSegment {
+  text: string
+  highlighted: boolean
+}
+
+export function splitHighlights(source: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = []
+  let highlighted = false
+  let buffer = ""
+
+  for (const char of source) {
+    if (char === HIGHLIGHT_START || char === HIGHLIGHT_END) {
+      if (buffer) segments.push({ text: buffer, highlighted })
+      buffer = ""
+      highlighted = char === HIGHLIGHT_START
+    } else {
+      buffer += char
+    }
+  }
+
+  if (buffer) segments.push({ text: buffer, highlighted })
+  return segments
+}
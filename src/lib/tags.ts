@@ -0,0 +1,81 @@
+// Tag names are case-insensitive and stored lowercase, with inner whitespace
+// as hyphens. Mirrors normalize_tag() in the database, so the UI shows tags
+// the way they will be saved.
+export function normalizeTag(tag: string) {
+  return tag.trim().toLowerCase().replace(/\s+/g, "-")
+}
+
+export const MAX_TAG_LENGTH = 35
+
+// Per question, matching the tags check in the database
+export const MAX_TAGS = 5
+
+// Letters, digits and . # + (for node.js, c#, c++), with single hyphens
+// between words. Same pattern as the tags check in the database.
+const TAG_PATTERN = /^[a-z0-9.#+]+(-[a-z0-9.#+]+)*$/
+
+/** Why a normalized tag can't be used, or null if it's fine */
+export function tagError(tag: string) {
+  if (!tag) return "Tags can't be empty"
+  if (tag.length > MAX_TAG_LENGTH) return `Tags can be at most ${MAX_TAG_LENGTH} characters`
+  if (!TAG_PATTERN.test(tag)) return "Tags can only use letters, numbers, hyphens and . # +"
+  return null
+}
+
+const MAX_CANDIDATES = 150
+
+/**
+ * Words and two-word phrases in a question that could be tag names, e.g.
+ * "Using React Native with node.js" gives using, react, native, with, node.js,
+ * using-react, react-native and so on. Existing tags among them are suggested.
+ */
+export function tagCandidates(text: string) {
+  const words = text.toLowerCase().match(/[a-z0-9][a-z0-9.#+-]*/g) ?? []
+  // Drop sentence punctuation, keeping a trailing + or # (c++, c#)
+  const cleaned = words.map((word) => word.replace(/[.-]+$/, "")).filter(Boolean)
+
+  const candidates = new Set<string>()
+  for (let i = 0; i < cleaned.length && candidates.size < MAX_CANDIDATES; i++) {
+    candidates.add(cleaned[i])
+    if (i + 1 < cleaned.length) candidates.add(`${cleaned[i]}-${cleaned[i + 1]}`)
+  }
+  return [...candidates].filter((tag) => !tagError(tag))
+}
+
+export type TagSort = "popular" | "name" | "new"
+
+export const TAG_SORTS: Record<TagSort, { label: string; column: "question_count" | "slug" | "created_at"; ascending: boolean }> = {
+  popular: { label: "Popular", column: "question_count", ascending: false },
+  name: { label: "Name", column: "slug", ascending: true },
+  new: { label: "New", column: "created_at", ascending: false },
+}
+
+/** Link to a tag's page */
+export function tagPath(tag: string) {
+  return `/tags/${encodeURIComponent(tag)}`
+}
+
+// Per list, matching valid_tag_patterns() in the database
+export const MAX_TAG_PATTERNS = 50
+
+/**
+ * Why a watched or ignored tag pattern can't be used, or null. Patterns are
+ * tag names where * matches anything, e.g. react*.
+ */
+export function tagPatternError(pattern: string) {
+  if (pattern && !/[^*]/.test(pattern)) return "A pattern needs more than just *"
+  return tagError(pattern.replace(/\*/g, "x"))
+}
+
+/** Whether a tag matches a watched or ignored tag pattern */
+export function tagMatchesPattern(tag: string, pattern: string) {
+  if (!pattern.includes("*")) return tag === pattern
+  const escaped = pattern.split("*").map((part) => part.replace(/[.+#]/g, "\\$&"))
+  return new RegExp(`^${escaped.join(".*")}$`).test(tag)
+}
+
+/** How many of a question's tags match any of the patterns */
+export function countTagMatches(tags: string[] | null, patterns: string[]) {
+  if (!tags || patterns.length === 0) return 0
+  return tags.filter((tag) => patterns.some((pattern) => tagMatchesPattern(tag, pattern))).length
+}
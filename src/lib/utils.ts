@@ -4,3 +4,18 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function formatTimeAgo(dateString: string) {
+  const date = new Date(dateString)
+  const now = new Date()
+  const diffInMinutes = Math.floor((now.getTime() - date.getTime()) / (1000 * 60))
+  const diffInHours = Math.floor(diffInMinutes / 60)
+
+  if (diffInMinutes < 1) return 'just now'
+  if (diffInHours < 1) return diffInMinutes === 1 ? '1 minute ago' : `${diffInMinutes} minutes ago`
+  if (diffInHours < 24) return diffInHours === 1 ? '1 hour ago' : `${diffInHours} hours ago`
+
+  const diffInDays = Math.floor(diffInHours / 24)
+  if (diffInDays === 1) return '1 day ago'
+  return `${diffInDays} days ago`
+}
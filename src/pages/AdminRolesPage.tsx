@@ -0,0 +1,301 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { ArrowLeft, ShieldCheck, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import AuthorLink from "@/components/AuthorLink";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { APP_ROLES, AppRole, ROLE_LABELS } from "@/lib/roles";
+import { formatTimeAgo } from "@/lib/utils";
+
+interface RoleGrant {
+  id: string;
+  user_id: string;
+  role: AppRole;
+  created_at: string;
+  user: { username: string | null; reputation: number } | null;
+  granted_by_user: { username: string | null } | null;
+}
+
+// Admin screen (/admin/roles): who holds which staff role, and granting or
+// revoking them. Only reachable through RequireRole.
+const AdminRolesPage = () => {
+  const navigate = useNavigate();
+  const { user, refreshRoles } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState<AppRole>('trusted');
+
+  const { data: grants, isLoading, error } = useQuery({
+    queryKey: ['user-roles'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_roles')
+        .select(`
+          id, user_id, role, created_at,
+          user:profiles!user_roles_user_id_fkey(username, reputation),
+          granted_by_user:profiles!user_roles_granted_by_fkey(username)
+        `)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as RoleGrant[];
+    },
+  });
+
+  // Someone changing their own roles should see the result straight away
+  const onRolesChanged = (userId: string) => {
+    queryClient.invalidateQueries({ queryKey: ['user-roles'] });
+    if (userId === user?.id) refreshRoles();
+  };
+
+  const grantMutation = useMutation({
+    mutationFn: async () => {
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('id, username')
+        .ilike('username', username.trim().replace(/[%_\\]/g, '\\$&'))
+        .maybeSingle();
+
+      if (profileError) throw profileError;
+      if (!profile) throw new Error(`No user called "${username.trim()}"`);
+
+      const { error } = await supabase.rpc('grant_role', {
+        p_user_id: profile.id,
+        p_role: role,
+      });
+
+      if (error) throw error;
+      return profile;
+    },
+    onSuccess: (profile) => {
+      onRolesChanged(profile.id);
+      setUsername("");
+      toast({
+        title: "Role granted",
+        description: `${profile.username} is now a ${ROLE_LABELS[role].label.toLowerCase()}.`
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error granting role",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (grant: RoleGrant) => {
+      const { error } = await supabase.rpc('revoke_role', {
+        p_user_id: grant.user_id,
+        p_role: grant.role,
+      });
+
+      if (error) throw error;
+      return grant;
+    },
+    onSuccess: (grant) => {
+      onRolesChanged(grant.user_id);
+      toast({
+        title: "Role revoked",
+        description: `${grant.user?.username ?? 'The user'} is no longer a ${ROLE_LABELS[grant.role].label.toLowerCase()}.`
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error revoking role",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleGrant = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!username.trim()) {
+      toast({
+        title: "Username required",
+        description: "Enter the username of the person to grant the role to.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    grantMutation.mutate();
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-5xl">
+      <div className="mb-6">
+        <Button
+          variant="ghost"
+          onClick={() => navigate(-1)}
+          className="mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <ShieldCheck className="h-7 w-7" />
+          Roles
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Staff roles build on each other: moderators can do everything trusted users can, and admins everything moderators can.
+        </p>
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader className="pb-3">
+          <h2 className="text-lg font-semibold">Grant a role</h2>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleGrant} className="flex flex-col sm:flex-row sm:items-end gap-3">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="grant-username">Username</Label>
+              <Input
+                id="grant-username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="e.g. jane_doe"
+              />
+            </div>
+
+            <div className="sm:w-56 space-y-2">
+              <Label htmlFor="grant-role">Role</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as AppRole)}>
+                <SelectTrigger id="grant-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {APP_ROLES.map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {ROLE_LABELS[key].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button type="submit" disabled={grantMutation.isPending}>
+              {grantMutation.isPending ? "Granting..." : "Grant"}
+            </Button>
+          </form>
+          <p className="text-sm text-muted-foreground mt-3">{ROLE_LABELS[role].description}</p>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-16 w-full" />
+          ))}
+        </div>
+      ) : error ? (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <p className="text-destructive">Error loading roles: {error.message}</p>
+          </CardContent>
+        </Card>
+      ) : !grants?.length ? (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <p className="text-muted-foreground">Nobody holds a staff role yet.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="divide-y p-0">
+            {grants.map((grant) => (
+              <div key={grant.id} className="flex items-center justify-between gap-4 px-6 py-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <AuthorLink
+                      name={grant.user?.username || 'Anonymous'}
+                      userId={grant.user_id}
+                      reputation={grant.user?.reputation}
+                    />
+                    <Badge variant={grant.role === 'trusted' ? 'secondary' : 'default'}>
+                      {ROLE_LABELS[grant.role].label}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Granted {formatTimeAgo(grant.created_at)}
+                    {grant.granted_by_user?.username && <> by {grant.granted_by_user.username}</>}
+                  </p>
+                </div>
+
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      disabled={
+                        revokeMutation.isPending ||
+                        (grant.user_id === user?.id && grant.role === 'admin')
+                      }
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Revoke
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Revoke this role?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        {grant.user?.username ?? 'This user'} will lose the {ROLE_LABELS[grant.role].label.toLowerCase()} role
+                        and anything that comes with it.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => revokeMutation.mutate(grant)}>
+                        Revoke
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <p className="text-sm text-muted-foreground mt-6">
+        Looking for flags? Head to the <Link to="/moderation" className="text-primary hover:underline">moderation dashboard</Link>.
+      </p>
+    </div>
+  );
+};
+
+export default AdminRolesPage;
@@ -1,16 +1,19 @@
 
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { ArrowLeft, Plus, X } from "lucide-react";
+import { ArrowLeft } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import RichTextEditor from "@/components/RichTextEditor";
+import TagInput from "@/components/TagInput";
 import { useToast } from "@/hooks/use-toast";
+import { usePopularTags } from "@/hooks/use-popular-tags";
 import { useMutation } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { MAX_TAGS } from "@/lib/tags";
 import { useAuth } from "@/contexts/AuthContext";
 
 const AskQuestionPage = () => {
@@ -21,22 +24,7 @@ const AskQuestionPage = () => {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [tags, setTags] = useState<string[]>([]);
-  const [newTag, setNewTag] = useState("");
-
-  // Redirect if not logged in
-  if (!user) {
-    return (
-      <div className="container mx-auto px-4 py-12 text-center">
-        <h1 className="text-2xl font-bold mb-4">Authentication Required</h1>
-        <p className="text-muted-foreground mb-6">
-          You need to be logged in to ask a question.
-        </p>
-        <Button onClick={() => navigate("/auth")}>
-          Sign In
-        </Button>
-      </div>
-    );
-  }
+  const [uploadingImages, setUploadingImages] = useState(false);
 
   const submitQuestionMutation = useMutation({
     mutationFn: async () => {
@@ -73,22 +61,26 @@ const AskQuestionPage = () => {
     }
   });
 
-  const handleAddTag = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === "Enter" && newTag.trim()) {
-      e.preventDefault();
-      if (!tags.includes(newTag.trim()) && tags.length < 5) {
-        setTags([...tags, newTag.trim()]);
-        setNewTag("");
-      }
-    }
-  };
+  const { data: popularTags } = usePopularTags();
 
-  const removeTag = (tagToRemove: string) => {
-    setTags(tags.filter(tag => tag !== tagToRemove));
-  };
+  // Redirect if not logged in
+  if (!user) {
+    return (
+      <div className="container mx-auto px-4 py-12 text-center">
+        <h1 className="text-2xl font-bold mb-4">Authentication Required</h1>
+        <p className="text-muted-foreground mb-6">
+          You need to be logged in to ask a question.
+        </p>
+        <Button onClick={() => navigate("/auth")}>
+          Sign In
+        </Button>
+      </div>
+    );
+  }
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (uploadingImages) return;
     
     if (!title.trim()) {
       toast({
@@ -155,6 +147,7 @@ const AskQuestionPage = () => {
                   <RichTextEditor
                     value={description}
                     onChange={setDescription}
+                    onUploadingChange={setUploadingImages}
                     placeholder="Provide details about your question. Include any relevant code, error messages, or what you've tried so far..."
                     className="min-h-[300px]"
                   />
@@ -166,45 +159,20 @@ const AskQuestionPage = () => {
                 {/* Tags */}
                 <div className="space-y-2">
                   <Label htmlFor="tags">Tags</Label>
-                  <div className="space-y-3">
-                    <Input
-                      id="tags"
-                      placeholder="Add up to 5 tags to describe what your question is about (press Enter to add)"
-                      value={newTag}
-                      onChange={(e) => setNewTag(e.target.value)}
-                      onKeyDown={handleAddTag}
-                      disabled={tags.length >= 5}
-                    />
-                    
-                    {tags.length > 0 && (
-                      <div className="flex flex-wrap gap-2">
-                        {tags.map((tag) => (
-                          <Badge key={tag} variant="secondary" className="gap-1">
-                            {tag}
-                            <button
-                              type="button"
-                              onClick={() => removeTag(tag)}
-                              className="ml-1 hover:text-destructive"
-                            >
-                              <X className="h-3 w-3" />
-                            </button>
-                          </Badge>
-                        ))}
-                      </div>
-                    )}
-                    
-                    <p className="text-sm text-muted-foreground">
-                      Add tags to help others find and answer your question. ({tags.length}/5)
-                    </p>
-                  </div>
+                  <TagInput id="tags" tags={tags} onChange={setTags} suggestFrom={`${title}\n${description}`} />
+                  <p className="text-sm text-muted-foreground">
+                    Add tags to help others find and answer your question. Use existing tags where you can. ({tags.length}/{MAX_TAGS})
+                  </p>
                 </div>
 
                 <Button 
                   type="submit" 
                   className="w-full"
-                  disabled={submitQuestionMutation.isPending}
+                  disabled={submitQuestionMutation.isPending || uploadingImages}
                 >
-                  {submitQuestionMutation.isPending ? "Posting..." : "Post Your Question"}
+                  {submitQuestionMutation.isPending
+                    ? "Posting..."
+                    : uploadingImages ? "Uploading images..." : "Post Your Question"}
                 </Button>
               </form>
             </CardContent>
@@ -255,22 +223,27 @@ const AskQuestionPage = () => {
               <CardTitle className="text-lg">Popular Tags</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="flex flex-wrap gap-2">
-                {["React", "JavaScript", "Node.js", "SQL", "Python", "CSS", "HTML", "TypeScript"].map((tag) => (
-                  <Badge 
-                    key={tag} 
-                    variant="outline" 
-                    className="cursor-pointer hover:bg-accent"
-                    onClick={() => {
-                      if (!tags.includes(tag) && tags.length < 5) {
-                        setTags([...tags, tag]);
-                      }
-                    }}
-                  >
-                    {tag}
-                  </Badge>
-                ))}
-              </div>
+              {popularTags && popularTags.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {popularTags.map((tag) => (
+                    <Badge
+                      key={tag.slug}
+                      variant="outline"
+                      className="cursor-pointer hover:bg-accent"
+                      onClick={() => {
+                        if (!tags.includes(tag.slug) && tags.length < MAX_TAGS) {
+                          setTags([...tags, tag.slug]);
+                        }
+                      }}
+                    >
+                      {tag.slug}
+                      <span className="ml-1 text-muted-foreground">× {tag.question_count}</span>
+                    </Badge>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No tags in use yet.</p>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -0,0 +1,290 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import RichTextEditor from "@/components/RichTextEditor";
+import TagInput from "@/components/TagInput";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePrivileges } from "@/hooks/use-privileges";
+
+interface EditablePost {
+  title: string | null;
+  body: string;
+  tags: string[] | null;
+  user_id: string | null;
+}
+
+// Edit form for a question (/question/:id/edit) or one of its answers
+// (/question/:id/answers/:answerId/edit). Users who can't edit the post
+// directly get the same form, but their edit goes to the review queue.
+const EditPostPage = () => {
+  const { id, answerId } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { can } = usePrivileges();
+  const queryClient = useQueryClient();
+
+  const targetType = answerId ? 'answer' : 'question';
+  const targetId = answerId ?? id;
+
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
+  const [summary, setSummary] = useState("");
+  const [uploadingImages, setUploadingImages] = useState(false);
+
+  const { data: post, isLoading } = useQuery({
+    queryKey: ['edit-post', targetType, targetId],
+    queryFn: async (): Promise<EditablePost> => {
+      if (targetType === 'question') {
+        const { data, error } = await supabase
+          .from('questions')
+          .select('title, description, tags, user_id')
+          .eq('id', targetId)
+          .single();
+
+        if (error) throw error;
+        return { title: data.title, body: data.description, tags: data.tags, user_id: data.user_id };
+      }
+
+      const { data, error } = await supabase
+        .from('answers')
+        .select('content, user_id')
+        .eq('id', targetId)
+        .single();
+
+      if (error) throw error;
+      return { title: null, body: data.content, tags: null, user_id: data.user_id };
+    },
+    enabled: !!targetId,
+    // Don't clobber the form with a refetch while editing
+    staleTime: Infinity,
+  });
+
+  useEffect(() => {
+    if (!post) return;
+    setTitle(post.title ?? "");
+    setBody(post.body);
+    setTags(post.tags ?? []);
+  }, [post]);
+
+  const suggesting = !!post && !!user && post.user_id !== user.id && !can('edit_posts');
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (suggesting) {
+        const { error } = await supabase.rpc('suggest_edit', {
+          p_target_type: targetType,
+          p_target_id: targetId,
+          p_body: body,
+          p_summary: summary.trim(),
+          p_title: targetType === 'question' ? title : undefined,
+          p_tags: targetType === 'question' ? tags : undefined,
+        });
+
+        if (error) throw error;
+        return;
+      }
+
+      const { error } = await supabase.rpc('edit_post', {
+        p_target_type: targetType,
+        p_target_id: targetId,
+        p_body: body,
+        p_title: targetType === 'question' ? title : undefined,
+        p_tags: targetType === 'question' ? tags : undefined,
+        p_summary: summary.trim() || undefined,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.removeQueries({ queryKey: ['edit-post', targetType, targetId] });
+      if (suggesting) {
+        queryClient.invalidateQueries({ queryKey: ['suggested-edits'] });
+        toast({
+          title: "Edit suggested",
+          description: "Thanks! Your edit will appear once it has been reviewed."
+        });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ['question', id] });
+        queryClient.invalidateQueries({ queryKey: ['answers', id] });
+        queryClient.invalidateQueries({ queryKey: ['revisions', id] });
+        toast({
+          title: "Edit saved",
+          description: `Your changes to the ${targetType} are live.`
+        });
+      }
+      navigate(`/question/${id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error saving edit",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (uploadingImages) return;
+
+    if (targetType === 'question' && !title.trim()) {
+      toast({
+        title: "Title required",
+        description: "Please provide a title for the question.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!body.trim()) {
+      toast({
+        title: "Body required",
+        description: `The ${targetType} can't be empty.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (suggesting && !summary.trim()) {
+      toast({
+        title: "Edit summary required",
+        description: "Tell reviewers what your edit changes.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    saveMutation.mutate();
+  };
+
+  if (!user) {
+    return (
+      <div className="container mx-auto px-4 py-12 text-center">
+        <h1 className="text-2xl font-bold mb-4">Authentication Required</h1>
+        <p className="text-muted-foreground mb-6">
+          You need to be logged in to edit posts.
+        </p>
+        <Button onClick={() => navigate("/auth")}>
+          Sign In
+        </Button>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-6 max-w-4xl space-y-4">
+        <Skeleton className="h-8 w-1/2" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!post) {
+    return (
+      <div className="container mx-auto px-4 py-12 text-center">
+        <h1 className="text-2xl font-bold mb-4">Post not found</h1>
+        <Button asChild>
+          <Link to="/">Back to questions</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-4xl">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-6">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => navigate(`/question/${id}`)}
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <h1 className="text-2xl font-bold">
+          {suggesting ? 'Suggest an Edit' : `Edit ${targetType === 'question' ? 'Question' : 'Answer'}`}
+        </h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {post.user_id === user.id ? `Update your ${targetType}` : `Improve this ${targetType}`}
+          </CardTitle>
+          {suggesting && (
+            <p className="text-sm text-muted-foreground">
+              Your edit will be placed in a queue until it is reviewed by the author or a trusted user.
+            </p>
+          )}
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {targetType === 'question' && (
+              <div className="space-y-2">
+                <Label htmlFor="title">Title</Label>
+                <Input
+                  id="title"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  className="text-base"
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Body</Label>
+              <RichTextEditor
+                value={body}
+                onChange={setBody}
+                onUploadingChange={setUploadingImages}
+                className="min-h-[300px]"
+              />
+            </div>
+
+            {targetType === 'question' && (
+              <div className="space-y-2">
+                <Label htmlFor="tags">Tags</Label>
+                <TagInput id="tags" tags={tags} onChange={setTags} suggestFrom={`${title}\n${body}`} />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="summary">Edit summary</Label>
+              <Input
+                id="summary"
+                placeholder="Briefly explain your changes (corrected spelling, fixed code, improved formatting)"
+                value={summary}
+                onChange={(e) => setSummary(e.target.value)}
+                maxLength={300}
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="submit" disabled={saveMutation.isPending || uploadingImages}>
+                {saveMutation.isPending
+                  ? "Saving..."
+                  : uploadingImages ? "Uploading images..." : suggesting ? "Suggest Edit" : "Save Edits"}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => navigate(`/question/${id}`)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default EditPostPage;
@@ -0,0 +1,393 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { ArrowLeft, Check, Lock, MessageSquareWarning, Shield, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import AuthorLink from "@/components/AuthorLink";
+import PostBody from "@/components/PostBody";
+import TagSynonymsPanel from "@/components/TagSynonymsPanel";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { FLAG_REASONS, FlagReason, FlagTargetType, MODERATION_ACTIONS, ModerationAction } from "@/lib/flags";
+import { formatTimeAgo } from "@/lib/utils";
+
+interface FlaggedPost {
+  target_type: FlagTargetType;
+  target_id: string;
+  question_id: string;
+  question_title: string;
+  author_id: string | null;
+  author_name: string;
+  content: string;
+  locked: boolean;
+  flag_count: number;
+  reasons: FlagReason[];
+  details: string[];
+  first_flagged_at: string;
+  last_flagged_at: string;
+}
+
+interface LogEntry {
+  id: string;
+  action: ModerationAction;
+  target_type: FlagTargetType;
+  question_id: string | null;
+  details: string | null;
+  created_at: string;
+  moderator: { username: string | null } | null;
+  target_user: { username: string | null } | null;
+}
+
+type FlagAction = 'dismiss' | 'delete' | 'lock' | 'warn';
+
+const ACTION_TOASTS: Record<FlagAction, { title: string; description: string }> = {
+  dismiss: { title: "Flags dismissed", description: "The flags were marked as not needing action." },
+  delete: { title: "Deleted", description: "The flagged content has been removed." },
+  lock: { title: "Question locked", description: "The question's thread is now locked." },
+  warn: { title: "Warning sent", description: "The author has been notified." },
+};
+
+// Moderator dashboard (/moderation): pending flags, tag synonyms and the
+// moderation log.
+// Only reachable through RequireRole.
+const ModerationPage = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // The post whose author is being warned
+  const [warning, setWarning] = useState<FlaggedPost | null>(null);
+  const [message, setMessage] = useState("");
+
+  const { data: flags, isLoading, error } = useQuery({
+    queryKey: ['flags'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('pending_flags');
+      if (error) throw error;
+      return data as FlaggedPost[];
+    },
+  });
+
+  const { data: log } = useQuery({
+    queryKey: ['moderation-log'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('moderation_log')
+        .select(`
+          id, action, target_type, question_id, details, created_at,
+          moderator:profiles!moderation_log_moderator_id_fkey(username),
+          target_user:profiles!moderation_log_target_user_id_fkey(username)
+        `)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      return data as LogEntry[];
+    },
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ post, action, message }: { post: FlaggedPost; action: FlagAction; message?: string }) => {
+      const { error } = await supabase.rpc('moderate_flagged_post', {
+        p_target_type: post.target_type,
+        p_target_id: post.target_id,
+        p_action: action,
+        p_message: message,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { post, action }) => {
+      queryClient.invalidateQueries({ queryKey: ['flags'] });
+      queryClient.invalidateQueries({ queryKey: ['moderation-log'] });
+      if (action === 'delete' || action === 'lock') {
+        queryClient.invalidateQueries({ queryKey: ['question', post.question_id] });
+        queryClient.invalidateQueries({ queryKey: ['answers', post.question_id] });
+        queryClient.invalidateQueries({ queryKey: ['comments', post.question_id] });
+        queryClient.invalidateQueries({ queryKey: ['questions'] });
+      }
+      setWarning(null);
+      toast(ACTION_TOASTS[action]);
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['flags'] });
+      toast({
+        title: "Error handling flags",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const openWarning = (post: FlaggedPost) => {
+    setMessage("");
+    setWarning(post);
+  };
+
+  const handleWarn = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!warning) return;
+
+    if (!message.trim()) {
+      toast({
+        title: "Message required",
+        description: "Tell the author what they need to change.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    moderateMutation.mutate({ post: warning, action: 'warn', message: message.trim() });
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-5xl">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-6">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => navigate(-1)}
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Shield className="h-5 w-5" />
+          Moderation
+        </h1>
+      </div>
+
+      <Tabs defaultValue="flags">
+        <TabsList>
+          <TabsTrigger value="flags">
+            Flags{flags && flags.length > 0 && ` (${flags.length})`}
+          </TabsTrigger>
+          <TabsTrigger value="tags">Tag synonyms</TabsTrigger>
+          <TabsTrigger value="log">Log</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="flags" className="space-y-4">
+          {isLoading ? (
+            Array.from({ length: 2 }).map((_, i) => (
+              <Card key={i}>
+                <CardContent className="p-6 space-y-3">
+                  <Skeleton className="h-5 w-1/3" />
+                  <Skeleton className="h-24 w-full" />
+                </CardContent>
+              </Card>
+            ))
+          ) : error ? (
+            <div className="text-center py-8">
+              <p className="text-destructive">Error loading flags. Please try again.</p>
+            </div>
+          ) : !flags || flags.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-muted-foreground">No flags waiting for review.</p>
+            </div>
+          ) : (
+            flags.map((post) => (
+              <Card key={`${post.target_type}:${post.target_id}`}>
+                <CardHeader className="pb-3 space-y-2">
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Badge variant="outline" className="capitalize">{post.target_type}</Badge>
+                      <Badge variant="destructive">
+                        {post.flag_count} flag{post.flag_count !== 1 ? 's' : ''}
+                      </Badge>
+                      {post.locked && <Badge variant="secondary">Locked</Badge>}
+                      <Link to={`/question/${post.question_id}`} className="font-medium hover:text-primary truncate">
+                        {post.question_title}
+                      </Link>
+                    </div>
+                    <span className="text-sm text-muted-foreground shrink-0">
+                      flagged {formatTimeAgo(post.last_flagged_at)}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {post.reasons.map((reason) => (
+                      <Badge key={reason} variant="secondary">{FLAG_REASONS[reason].label}</Badge>
+                    ))}
+                  </div>
+                  {post.details.length > 0 && (
+                    <ul className="space-y-1 text-sm">
+                      {post.details.map((detail, i) => (
+                        <li key={i} className="border-l-2 pl-3 text-muted-foreground">{detail}</li>
+                      ))}
+                    </ul>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="rounded-md border bg-muted/30 p-4">
+                    {post.target_type === 'comment' ? (
+                      <p className="whitespace-pre-wrap break-words text-sm">{post.content}</p>
+                    ) : (
+                      <PostBody content={post.content} />
+                    )}
+                    <div className="mt-2 text-sm text-muted-foreground">
+                      by <AuthorLink name={post.author_name} userId={post.author_id} />
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => moderateMutation.mutate({ post, action: 'dismiss' })}
+                      disabled={moderateMutation.isPending}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Dismiss
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => openWarning(post)}
+                      disabled={moderateMutation.isPending || !post.author_id}
+                    >
+                      <MessageSquareWarning className="h-4 w-4 mr-1" />
+                      Warn author
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => moderateMutation.mutate({ post, action: 'lock' })}
+                      disabled={moderateMutation.isPending || post.locked}
+                    >
+                      <Lock className="h-4 w-4 mr-1" />
+                      Lock question
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button size="sm" variant="destructive" disabled={moderateMutation.isPending}>
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Delete
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete this {post.target_type}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            {post.target_type === 'question'
+                              ? 'The question, its answers and all comments will be removed.'
+                              : `The ${post.target_type} will be removed.`}{' '}
+                            A copy is kept in the moderation log.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => moderateMutation.mutate({ post, action: 'delete' })}>
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </TabsContent>
+
+        <TabsContent value="tags">
+          <TagSynonymsPanel />
+        </TabsContent>
+
+        <TabsContent value="log">
+          {!log || log.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-muted-foreground">No moderation actions yet.</p>
+            </div>
+          ) : (
+            <Card>
+              <CardContent className="p-0">
+                <ul className="divide-y text-sm">
+                  {log.map((entry) => (
+                    <li key={entry.id} className="px-4 py-3">
+                      <div className="flex flex-col sm:flex-row sm:justify-between gap-1">
+                        <span>
+                          <span className="font-medium">{entry.moderator?.username || 'A moderator'}</span>{' '}
+                          {MODERATION_ACTIONS[entry.action].toLowerCase()}{' '}
+                          {entry.question_id && entry.action !== 'delete' ? (
+                            <Link to={`/question/${entry.question_id}`} className="text-primary hover:underline">
+                              a {entry.target_type}
+                            </Link>
+                          ) : (
+                            `a ${entry.target_type}`
+                          )}
+                          {entry.target_user?.username && <> by {entry.target_user.username}</>}
+                        </span>
+                        <span className="text-muted-foreground shrink-0">{formatTimeAgo(entry.created_at)}</span>
+                      </div>
+                      {entry.details && (
+                        <p className="mt-1 text-muted-foreground">{entry.details}</p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={!!warning} onOpenChange={(open) => !open && setWarning(null)}>
+        <DialogContent>
+          <form onSubmit={handleWarn} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Warn {warning?.author_name}</DialogTitle>
+              <DialogDescription>
+                The author gets a notification with your message. The flags on this {warning?.target_type} are
+                marked as handled.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="warning-message">Message</Label>
+              <Textarea
+                id="warning-message"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                placeholder="e.g. Please keep comments constructive and focused on the post."
+                className="min-h-[100px]"
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setWarning(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={moderateMutation.isPending}>
+                Send Warning
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ModerationPage;
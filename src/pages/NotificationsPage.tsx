@@ -0,0 +1,175 @@
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { ArrowLeft, CheckCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useMarkNotificationsRead } from "@/hooks/use-notifications";
+import { describeNotification, NOTIFICATION_SELECT, type Notification } from "@/lib/notifications";
+import { cn, formatTimeAgo } from "@/lib/utils";
+
+const PAGE_SIZE = 20;
+
+const NotificationsPage = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { markRead, markAllRead } = useMarkNotificationsRead();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['notifications', user?.id, 'page', page],
+    queryFn: async () => {
+      if (!user) throw new Error('User must be logged in');
+
+      const from = (page - 1) * PAGE_SIZE;
+      const { data, count, error } = await supabase
+        .from('notifications')
+        .select(NOTIFICATION_SELECT, { count: 'exact' })
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      return { notifications: data as Notification[], total: count ?? 0 };
+    },
+    enabled: !!user,
+  });
+
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+
+  const goToPage = (e: React.MouseEvent, target: number) => {
+    e.preventDefault();
+    if (target < 1 || target > totalPages) return;
+    setSearchParams(target === 1 ? {} : { page: String(target) });
+  };
+
+  if (!user) {
+    return (
+      <div className="container mx-auto px-4 py-12 text-center">
+        <h1 className="text-2xl font-bold mb-4">Authentication Required</h1>
+        <p className="text-muted-foreground mb-6">
+          You need to be logged in to see your notifications.
+        </p>
+        <Button onClick={() => navigate("/auth")}>
+          Sign In
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-3xl">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-6">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => navigate("/")}
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <h1 className="text-2xl font-bold flex-1">Notifications</h1>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => markAllRead.mutate()}
+          disabled={markAllRead.isPending}
+        >
+          <CheckCheck className="h-4 w-4 mr-2" />
+          Mark all as read
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="p-6 space-y-4">
+              {Array.from({ length: 4 }).map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : error ? (
+            <p className="p-6 text-center text-destructive">Error loading notifications. Please try again.</p>
+          ) : data && data.notifications.length > 0 ? (
+            <ul className="divide-y">
+              {data.notifications.map((notification) => {
+                const { title, description, link } = describeNotification(notification);
+                return (
+                  <li key={notification.id}>
+                    <Link
+                      to={link}
+                      onClick={() => !notification.read_at && markRead.mutate(notification.id)}
+                      className={cn(
+                        "flex items-start gap-3 p-4 hover:bg-accent transition-colors",
+                        !notification.read_at && "bg-accent/50"
+                      )}
+                    >
+                      <span
+                        className={cn(
+                          "mt-2 h-2 w-2 shrink-0 rounded-full",
+                          notification.read_at ? "bg-transparent" : "bg-primary"
+                        )}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium">{title}</div>
+                        <div className="text-sm text-muted-foreground line-clamp-2">{description}</div>
+                      </div>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {formatTimeAgo(notification.created_at)}
+                      </span>
+                    </Link>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="p-6 text-center text-muted-foreground">You don't have any notifications yet.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {totalPages > 1 && (
+        <Pagination className="mt-6">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                onClick={(e) => goToPage(e, page - 1)}
+                className={cn(page <= 1 && "pointer-events-none opacity-50")}
+              />
+            </PaginationItem>
+            {Array.from({ length: totalPages }, (_, i) => i + 1)
+              .filter((p) => Math.abs(p - page) <= 2 || p === 1 || p === totalPages)
+              .map((p) => (
+                <PaginationItem key={p}>
+                  <PaginationLink href="#" isActive={p === page} onClick={(e) => goToPage(e, p)}>
+                    {p}
+                  </PaginationLink>
+                </PaginationItem>
+              ))}
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                onClick={(e) => goToPage(e, page + 1)}
+                className={cn(page >= totalPages && "pointer-events-none opacity-50")}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  );
+};
+
+export default NotificationsPage;
@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { Link, useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { ArrowLeft, History, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import AuthorLink from "@/components/AuthorLink";
+import { InlineDiff, SideBySideDiff, TagsDiff } from "@/components/RevisionDiff";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePrivileges } from "@/hooks/use-privileges";
+import { formatTimeAgo } from "@/lib/utils";
+
+interface Revision {
+  id: string;
+  revision_number: number;
+  title: string | null;
+  body: string;
+  tags: string[] | null;
+  summary: string | null;
+  editor_id: string | null;
+  created_at: string;
+  profiles: { username: string | null; reputation: number } | null;
+}
+
+type DiffView = 'side-by-side' | 'inline';
+
+// History of a question (/question/:id/revisions) or an answer (?answer=<id>)
+const PostRevisionsPage = () => {
+  const { id } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { can } = usePrivileges();
+  const queryClient = useQueryClient();
+  const [view, setView] = useState<DiffView>('side-by-side');
+
+  const answerId = searchParams.get('answer');
+  const targetType = answerId ? 'answer' : 'question';
+  const targetId = answerId ?? id;
+
+  // The post's question title and owner, for the header and rollback rights
+  const { data: post } = useQuery({
+    queryKey: ['revision-target', targetType, targetId],
+    queryFn: async () => {
+      if (targetType === 'question') {
+        const { data, error } = await supabase
+          .from('questions')
+          .select('title, user_id')
+          .eq('id', targetId)
+          .single();
+
+        if (error) throw error;
+        return { questionTitle: data.title, ownerId: data.user_id };
+      }
+
+      const { data, error } = await supabase
+        .from('answers')
+        .select('user_id, questions(title)')
+        .eq('id', targetId)
+        .single();
+
+      if (error) throw error;
+      return { questionTitle: data.questions?.title ?? '', ownerId: data.user_id };
+    },
+    enabled: !!targetId,
+  });
+
+  const { data: revisions, isLoading, error } = useQuery({
+    queryKey: ['revisions', id, targetType, targetId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('post_revisions')
+        .select('*, profiles(username, reputation)')
+        .eq('target_type', targetType)
+        .eq('target_id', targetId)
+        .order('revision_number', { ascending: false });
+
+      if (error) throw error;
+      return data as Revision[];
+    },
+    enabled: !!targetId,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (revision: Revision) => {
+      const { data, error } = await supabase.rpc('rollback_post', { p_revision_id: revision.id });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_, revision) => {
+      queryClient.invalidateQueries({ queryKey: ['revisions', id] });
+      queryClient.invalidateQueries({ queryKey: ['question', id] });
+      queryClient.invalidateQueries({ queryKey: ['answers', id] });
+      toast({
+        title: "Rolled back",
+        description: `The ${targetType} now matches revision ${revision.revision_number}.`
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error rolling back",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const canRollback = !!user && !!post && (post.ownerId === user.id || can('moderator_tools'));
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-5xl">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-6">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => navigate(`/question/${id}`)}
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div className="flex-1 min-w-0">
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <History className="h-5 w-5" />
+            {targetType === 'question' ? 'Question' : 'Answer'} Revisions
+          </h1>
+          {post && (
+            <Link to={`/question/${id}`} className="text-sm text-muted-foreground hover:text-primary line-clamp-1">
+              {post.questionTitle}
+            </Link>
+          )}
+        </div>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={view}
+          onValueChange={(value) => value && setView(value as DiffView)}
+        >
+          <ToggleGroupItem value="side-by-side">Side by side</ToggleGroupItem>
+          <ToggleGroupItem value="inline">Inline</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <div className="space-y-4">
+        {isLoading ? (
+          Array.from({ length: 2 }).map((_, i) => (
+            <Card key={i}>
+              <CardContent className="p-6 space-y-3">
+                <Skeleton className="h-5 w-1/3" />
+                <Skeleton className="h-24 w-full" />
+              </CardContent>
+            </Card>
+          ))
+        ) : error ? (
+          <div className="text-center py-8">
+            <p className="text-destructive">Error loading revisions. Please try again.</p>
+          </div>
+        ) : !revisions || revisions.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">This post has no revisions.</p>
+          </div>
+        ) : (
+          revisions.map((revision, i) => {
+            const previous = revisions[i + 1];
+            const isCurrent = i === 0;
+            const Diff = view === 'inline' ? InlineDiff : SideBySideDiff;
+
+            return (
+              <Card key={revision.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Badge variant="outline">{revision.revision_number}</Badge>
+                      {isCurrent && <Badge>Current</Badge>}
+                      <span className="text-sm truncate">
+                        {revision.summary || (previous ? 'Edited' : 'Original')}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                      <span>
+                        {formatTimeAgo(revision.created_at)} by{' '}
+                        <AuthorLink
+                          name={revision.profiles?.username || 'Unknown'}
+                          userId={revision.editor_id}
+                          reputation={revision.profiles?.reputation}
+                        />
+                      </span>
+                      {canRollback && !isCurrent && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="outline" size="sm" disabled={rollbackMutation.isPending}>
+                              <RotateCcw className="h-3 w-3 mr-1" />
+                              Rollback
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Roll back to revision {revision.revision_number}?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                The {targetType} will be restored to this version. This is saved as a new
+                                revision, so it can be undone later.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => rollbackMutation.mutate(revision)}>
+                                Rollback
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {revision.title != null && (previous ? revision.title !== previous.title : true) && (
+                    <div>
+                      <h3 className="text-xs font-semibold uppercase text-muted-foreground mb-1">Title</h3>
+                      <InlineDiff before={previous?.title ?? revision.title} after={revision.title} />
+                    </div>
+                  )}
+
+                  {(!previous || revision.body !== previous.body) && (
+                    <div>
+                      <h3 className="text-xs font-semibold uppercase text-muted-foreground mb-1">Body</h3>
+                      <Diff before={previous?.body ?? revision.body} after={revision.body} />
+                    </div>
+                  )}
+
+                  {targetType === 'question' &&
+                    (previous
+                      ? (revision.tags ?? []).join() !== (previous.tags ?? []).join()
+                      : (revision.tags ?? []).length > 0) && (
+                      <div>
+                        <h3 className="text-xs font-semibold uppercase text-muted-foreground mb-1">Tags</h3>
+                        <TagsDiff before={previous?.tags ?? revision.tags ?? []} after={revision.tags ?? []} />
+                      </div>
+                    )}
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PostRevisionsPage;
@@ -1,16 +1,26 @@
 
-import { useState, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
-import { ArrowLeft, ArrowUp, ArrowDown, Check, Calendar, MessageSquare, Eye } from "lucide-react";
+import { useState, useEffect, ReactNode } from "react";
+import { useParams, useNavigate, Link } from "react-router-dom";
+import { ArrowLeft, Check, Calendar, MessageSquare, Eye, Lock } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import RichTextEditor from "@/components/RichTextEditor";
+import VoteControls, { VoteValue } from "@/components/VoteControls";
+import AuthorLink from "@/components/AuthorLink";
+import TagBadge from "@/components/TagBadge";
+import CommentList from "@/components/CommentList";
+import PostBody from "@/components/PostBody";
+import CloseVoteControls from "@/components/CloseVoteControls";
+import FlagDialog from "@/components/FlagDialog";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { formatTimeAgo } from "@/lib/utils";
 import { useAuth } from "@/contexts/AuthContext";
+import { usePrivileges } from "@/hooks/use-privileges";
+import { CLOSE_REASONS, CloseReason } from "@/lib/close-reasons";
+import { FlagTargetType } from "@/lib/flags";
 
 interface Question {
   id: string;
@@ -20,9 +30,16 @@ interface Question {
   author_name: string;
   user_id: string | null;
   created_at: string;
+  updated_at: string;
   votes: number | null;
   views: number | null;
   has_accepted_answer: boolean | null;
+  closed_at: string | null;
+  close_reason: CloseReason | null;
+  duplicate_of: string | null;
+  locked_at: string | null;
+  profiles: { reputation: number } | null;
+  duplicate: { id: string; title: string } | null;
 }
 
 interface Answer {
@@ -31,19 +48,61 @@ interface Answer {
   author_name: string;
   user_id: string | null;
   created_at: string;
+  updated_at: string;
   votes: number | null;
   is_accepted: boolean | null;
   question_id: string;
+  profiles: { reputation: number } | null;
 }
 
+interface Vote {
+  target_type: 'question' | 'answer';
+  target_id: string;
+  value: VoteValue;
+}
+
+interface PostActionsProps {
+  editPath: string | null;
+  /** Whether the edit goes live directly, or is suggested for review */
+  canEdit: boolean;
+  revisionsPath: string;
+  createdAt: string;
+  updatedAt: string;
+  children?: ReactNode;
+}
+
+// Edit link and, once a post has been edited, a link to its revision history
+const PostActions = ({ editPath, canEdit, revisionsPath, createdAt, updatedAt, children }: PostActionsProps) => {
+  const edited = new Date(updatedAt).getTime() - new Date(createdAt).getTime() > 1000;
+
+  return (
+    <div className="flex items-center gap-3 text-sm text-muted-foreground">
+      {editPath && (
+        <Link to={editPath} className="hover:text-primary">
+          {canEdit ? 'Edit' : 'Suggest edit'}
+        </Link>
+      )}
+      {children}
+      {edited && (
+        <Link to={revisionsPath} className="hover:text-primary">
+          edited {formatTimeAgo(updatedAt)}
+        </Link>
+      )}
+    </div>
+  );
+};
+
 const QuestionDetailPage = () => {
   const { id } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { user } = useAuth();
+  const { user, hasRole } = useAuth();
+  const { can, missingReason } = usePrivileges();
   const queryClient = useQueryClient();
   
   const [newAnswer, setNewAnswer] = useState("");
+  const [uploadingImages, setUploadingImages] = useState(false);
+  const [flagTarget, setFlagTarget] = useState<{ type: FlagTargetType; id: string } | null>(null);
 
   // Fetch question details
   const { data: question, isLoading: questionLoading } = useQuery({
@@ -53,7 +112,7 @@ const QuestionDetailPage = () => {
       
       const { data, error } = await supabase
         .from('questions')
-        .select('*')
+        .select('*, profiles(reputation), duplicate:questions!duplicate_of(id, title)')
         .eq('id', id)
         .single();
       
@@ -71,7 +130,7 @@ const QuestionDetailPage = () => {
       
       const { data, error } = await supabase
         .from('answers')
-        .select('*')
+        .select('*, profiles(reputation)')
         .eq('question_id', id)
         .order('created_at', { ascending: false });
       
@@ -81,6 +140,33 @@ const QuestionDetailPage = () => {
     enabled: !!id,
   });
 
+  // Fetch the current user's votes on this question and its answers
+  const { data: userVotes } = useQuery({
+    queryKey: ['votes', id, user?.id],
+    queryFn: async () => {
+      if (!id || !user) throw new Error('User must be logged in');
+
+      const targetIds = [id, ...(answers?.map(a => a.id) ?? [])];
+      const { data, error } = await supabase
+        .from('votes')
+        .select('target_type, target_id, value')
+        .eq('user_id', user.id)
+        .in('target_id', targetIds);
+
+      if (error) throw error;
+      return data as Vote[];
+    },
+    enabled: !!id && !!user && !!answers,
+  });
+
+  const getUserVote = (targetType: Vote['target_type'], targetId: string): VoteValue => {
+    return userVotes?.find(v => v.target_type === targetType && v.target_id === targetId)?.value ?? 0;
+  };
+
+  // Authors can always edit their posts; others need the edit privilege
+  const canEdit = (ownerId: string | null) => !!user && (ownerId === user.id || can('edit_posts'));
+  const canFlag = (ownerId: string | null) => !!user && ownerId !== user.id;
+
   // Update question views when page loads
   useEffect(() => {
     if (question && id) {
@@ -130,26 +216,44 @@ const QuestionDetailPage = () => {
     }
   });
 
-  // Vote on answer mutation
-  const voteAnswerMutation = useMutation({
-    mutationFn: async ({ answerId, increment }: { answerId: string; increment: number }) => {
+  // Vote mutation: casts, changes or retracts the user's vote server-side
+  const voteMutation = useMutation({
+    mutationFn: async ({ targetType, targetId, value }: { targetType: Vote['target_type']; targetId: string; value: VoteValue }) => {
       if (!user) throw new Error('User must be logged in');
-      
-      const answer = answers?.find(a => a.id === answerId);
-      if (!answer) throw new Error('Answer not found');
-      
-      const { error } = await supabase
-        .from('answers')
-        .update({ votes: (answer.votes || 0) + increment })
-        .eq('id', answerId);
-      
+
+      const { data, error } = await supabase.rpc('cast_vote', {
+        p_target_type: targetType,
+        p_target_id: targetId,
+        p_value: value,
+      });
+
       if (error) throw error;
+      return data;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['answers', id] });
+    onSuccess: (total, { targetType, targetId, value }) => {
+      if (targetType === 'question') {
+        queryClient.setQueryData<Question>(['question', id], (old) =>
+          old ? { ...old, votes: total } : old
+        );
+        // Keep every cached home list in step with the new score
+        queryClient.setQueriesData<{ id: string; votes: number | null }[]>(
+          { queryKey: ['questions'] },
+          (old) => old?.map(q => (q.id === targetId ? { ...q, votes: total } : q))
+        );
+      } else {
+        queryClient.setQueryData<Answer[]>(['answers', id], (old) =>
+          old?.map(a => (a.id === targetId ? { ...a, votes: total } : a))
+        );
+      }
+
+      queryClient.setQueryData<Vote[]>(['votes', id, user?.id], (old) => {
+        const others = (old ?? []).filter(v => !(v.target_type === targetType && v.target_id === targetId));
+        return value === 0 ? others : [...others, { target_type: targetType, target_id: targetId, value }];
+      });
+
       toast({
-        title: "Vote recorded",
-        description: "Your vote has been recorded."
+        title: value === 0 ? "Vote removed" : "Vote recorded",
+        description: value === 0 ? "Your vote has been removed." : "Your vote has been recorded."
       });
     },
     onError: (error) => {
@@ -161,38 +265,26 @@ const QuestionDetailPage = () => {
     }
   });
 
-  // Accept answer mutation
+  // Accept answer mutation: accepts the answer, or un-accepts it if already accepted
   const acceptAnswerMutation = useMutation({
     mutationFn: async (answerId: string) => {
       if (!user || !question) throw new Error('User must be logged in and own the question');
       if (question.user_id !== user.id) throw new Error('Only question owner can accept answers');
       
-      // First, unaccept all answers for this question
-      await supabase
-        .from('answers')
-        .update({ is_accepted: false })
-        .eq('question_id', id);
-      
-      // Then accept the selected answer
-      const { error } = await supabase
-        .from('answers')
-        .update({ is_accepted: true })
-        .eq('id', answerId);
+      const { data, error } = await supabase.rpc('accept_answer', { p_answer_id: answerId });
       
       if (error) throw error;
-      
-      // Update question to mark it as having an accepted answer
-      await supabase
-        .from('questions')
-        .update({ has_accepted_answer: true })
-        .eq('id', id);
+      return data;
     },
-    onSuccess: () => {
+    onSuccess: (accepted) => {
       queryClient.invalidateQueries({ queryKey: ['answers', id] });
       queryClient.invalidateQueries({ queryKey: ['question', id] });
+      queryClient.invalidateQueries({ queryKey: ['questions'] });
       toast({
-        title: "Answer accepted",
-        description: "This answer has been marked as the accepted solution."
+        title: accepted ? "Answer accepted" : "Answer unaccepted",
+        description: accepted
+          ? "This answer has been marked as the accepted solution."
+          : "This answer is no longer marked as the accepted solution."
       });
     },
     onError: (error) => {
@@ -204,8 +296,35 @@ const QuestionDetailPage = () => {
     }
   });
 
+  // Moderators can lock or unlock the whole thread
+  const lockMutation = useMutation({
+    mutationFn: async (locked: boolean) => {
+      if (!id) throw new Error('Question ID is required');
+
+      const { error } = await supabase.rpc('set_question_lock', { p_question_id: id, p_locked: locked });
+      if (error) throw error;
+    },
+    onSuccess: (_, locked) => {
+      queryClient.invalidateQueries({ queryKey: ['question', id] });
+      toast({
+        title: locked ? "Question locked" : "Question unlocked",
+        description: locked
+          ? "Nobody can answer, comment on, edit or vote on this question."
+          : "The question is open for activity again."
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error changing lock",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
   const handleSubmitAnswer = (e: React.FormEvent) => {
     e.preventDefault();
+    if (uploadingImages) return;
     
     if (!user) {
       toast({
@@ -228,19 +347,29 @@ const QuestionDetailPage = () => {
     submitAnswerMutation.mutate(newAnswer);
   };
 
-  const handleVote = (answerId: string, isUpvote: boolean) => {
+  const handleVote = (targetType: Vote['target_type'], targetId: string, ownerId: string | null, value: VoteValue) => {
     if (!user) {
       toast({
         title: "Login required",
-        description: "Please log in to vote on answers.",
+        description: `Please log in to vote on ${targetType}s.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (ownerId === user.id) {
+      toast({
+        title: "Can't vote on your own post",
+        description: `You cannot vote on your own ${targetType}.`,
         variant: "destructive"
       });
       return;
     }
     
-    voteAnswerMutation.mutate({ 
-      answerId, 
-      increment: isUpvote ? 1 : -1 
+    voteMutation.mutate({
+      targetType,
+      targetId,
+      value
     });
   };
 
@@ -257,19 +386,6 @@ const QuestionDetailPage = () => {
     acceptAnswerMutation.mutate(answerId);
   };
 
-  const formatTimeAgo = (dateString: string) => {
-    const date = new Date(dateString);
-    const now = new Date();
-    const diffInHours = Math.floor((now.getTime() - date.getTime()) / (1000 * 60 * 60));
-    
-    if (diffInHours < 1) return 'less than an hour ago';
-    if (diffInHours < 24) return `${diffInHours} hours ago`;
-    
-    const diffInDays = Math.floor(diffInHours / 24);
-    if (diffInDays === 1) return '1 day ago';
-    return `${diffInDays} days ago`;
-  };
-
   if (questionLoading || answersLoading) {
     return (
       <div className="container mx-auto px-4 py-6 max-w-5xl">
@@ -331,45 +447,123 @@ const QuestionDetailPage = () => {
       <div className="grid gap-6 lg:grid-cols-4">
         {/* Main Content */}
         <div className="lg:col-span-3 space-y-6">
+          {/* Locked notice */}
+          {question.locked_at && (
+            <div className="flex items-start gap-2 rounded-md border bg-muted p-4 text-sm">
+              <Lock className="h-4 w-4 mt-0.5 shrink-0" />
+              <p>
+                <span className="font-semibold">Locked {formatTimeAgo(question.locked_at)}.</span>{' '}
+                A moderator has locked this question. It can't be answered, commented on, edited or voted on.
+              </p>
+            </div>
+          )}
+
+          {/* Closed notice */}
+          {question.closed_at && question.close_reason && (
+            <div className="rounded-md border border-yellow-300 bg-yellow-50 p-4 text-sm text-yellow-900 dark:border-yellow-800 dark:bg-yellow-950 dark:text-yellow-200">
+              <div className="flex items-center gap-2 font-semibold mb-1">
+                <Lock className="h-4 w-4" />
+                Closed as {CLOSE_REASONS[question.close_reason].label.toLowerCase()} {formatTimeAgo(question.closed_at)}
+              </div>
+              {question.close_reason === 'duplicate' && question.duplicate ? (
+                <p>
+                  This question already has an answer here:{' '}
+                  <Link to={`/question/${question.duplicate.id}`} className="font-medium underline hover:text-primary">
+                    {question.duplicate.title}
+                  </Link>
+                </p>
+              ) : (
+                <p>{CLOSE_REASONS[question.close_reason].description}</p>
+              )}
+              <p className="mt-1 text-yellow-800 dark:text-yellow-300">
+                It is not accepting answers. Users with enough reputation can vote to reopen it.
+              </p>
+            </div>
+          )}
+
           {/* Question */}
           <Card>
             <CardContent className="p-6">
               <div className="flex gap-4">
                 {/* Vote Controls */}
                 <div className="flex flex-col items-center gap-2 w-12">
-                  <Button variant="ghost" size="icon" className="h-8 w-8">
-                    <ArrowUp className="h-4 w-4" />
-                  </Button>
-                  <span className="font-semibold text-xl">{question.votes || 0}</span>
-                  <Button variant="ghost" size="icon" className="h-8 w-8">
-                    <ArrowDown className="h-4 w-4" />
-                  </Button>
+                  <VoteControls
+                    score={question.votes || 0}
+                    userVote={getUserVote('question', question.id)}
+                    onVote={(value) => handleVote('question', question.id, question.user_id, value)}
+                    disabled={voteMutation.isPending}
+                    disabledReason={
+                      question.locked_at
+                        ? "This question is locked."
+                        : user && question.user_id === user.id ? "You can't vote on your own question." : null
+                    }
+                    downvoteDisabledReason={missingReason('downvote')}
+                  />
                 </div>
 
                 {/* Question Content */}
                 <div className="flex-1 min-w-0">
-                  <div className="prose prose-sm max-w-none mb-6">
-                    <div className="whitespace-pre-wrap">{question.description}</div>
-                  </div>
+                  <PostBody content={question.description} className="mb-6" />
                   
                   {/* Tags */}
                   {question.tags && question.tags.length > 0 && (
                     <div className="flex flex-wrap gap-2 mb-4">
                       {question.tags.map((tag) => (
-                        <Badge key={tag} variant="secondary">
-                          {tag}
-                        </Badge>
+                        <TagBadge key={tag} tag={tag} />
                       ))}
                     </div>
                   )}
                   
-                  {/* Author Info */}
-                  <div className="flex justify-end">
+                  {/* Post actions and author info */}
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <PostActions
+                      editPath={user && !question.locked_at ? `/question/${question.id}/edit` : null}
+                      canEdit={canEdit(question.user_id)}
+                      revisionsPath={`/question/${question.id}/revisions`}
+                      createdAt={question.created_at}
+                      updatedAt={question.updated_at}
+                    >
+                      {!question.locked_at && (
+                        <CloseVoteControls questionId={question.id} closed={!!question.closed_at} />
+                      )}
+                      {canFlag(question.user_id) && (
+                        <button
+                          type="button"
+                          className="hover:text-primary"
+                          onClick={() => setFlagTarget({ type: 'question', id: question.id })}
+                        >
+                          flag
+                        </button>
+                      )}
+                      {hasRole('moderator') && (
+                        <button
+                          type="button"
+                          className="hover:text-primary"
+                          onClick={() => lockMutation.mutate(!question.locked_at)}
+                          disabled={lockMutation.isPending}
+                        >
+                          {question.locked_at ? 'unlock' : 'lock'}
+                        </button>
+                      )}
+                    </PostActions>
                     <div className="text-sm">
                       <span className="text-muted-foreground">asked by </span>
-                      <span className="font-medium">{question.author_name}</span>
+                      <AuthorLink
+                        name={question.author_name}
+                        userId={question.user_id}
+                        reputation={question.profiles?.reputation}
+                      />
                     </div>
                   </div>
+
+                  <CommentList
+                    questionId={question.id}
+                    targetType="question"
+                    targetId={question.id}
+                    postOwnerId={question.user_id}
+                    questionOwnerId={question.user_id}
+                    locked={!!question.locked_at}
+                  />
                 </div>
               </div>
             </CardContent>
@@ -390,34 +584,27 @@ const QuestionDetailPage = () => {
                     <div className="flex gap-4">
                       {/* Vote Controls */}
                       <div className="flex flex-col items-center gap-2 w-12">
-                        <Button 
-                          variant="ghost" 
-                          size="icon" 
-                          className="h-8 w-8"
-                          onClick={() => handleVote(answer.id, true)}
-                          disabled={voteAnswerMutation.isPending}
-                        >
-                          <ArrowUp className="h-4 w-4" />
-                        </Button>
-                        <span className="font-semibold text-xl">{answer.votes || 0}</span>
-                        <Button 
-                          variant="ghost" 
-                          size="icon" 
-                          className="h-8 w-8"
-                          onClick={() => handleVote(answer.id, false)}
-                          disabled={voteAnswerMutation.isPending}
-                        >
-                          <ArrowDown className="h-4 w-4" />
-                        </Button>
+                        <VoteControls
+                          score={answer.votes || 0}
+                          userVote={getUserVote('answer', answer.id)}
+                          onVote={(value) => handleVote('answer', answer.id, answer.user_id, value)}
+                          disabled={voteMutation.isPending}
+                          disabledReason={
+                            question.locked_at
+                              ? "This question is locked."
+                              : user && answer.user_id === user.id ? "You can't vote on your own answer." : null
+                          }
+                          downvoteDisabledReason={missingReason('downvote')}
+                        />
                         
-                        {/* Accept Answer Button (only for question owner) */}
-                        {user && question.user_id === user.id && (
+                        {/* Accept Answer Button (only for question owner, not on locked questions) */}
+                        {user && question.user_id === user.id && !question.locked_at && (
                           <Button
                             variant={answer.is_accepted ? "default" : "ghost"}
                             size="icon"
                             className={`h-8 w-8 mt-2 ${answer.is_accepted ? 'text-green-600' : ''}`}
                             onClick={() => handleAcceptAnswer(answer.id)}
-                            title={answer.is_accepted ? "Accepted answer" : "Accept this answer"}
+                            title={answer.is_accepted ? "Unaccept this answer" : "Accept this answer"}
                             disabled={acceptAnswerMutation.isPending}
                           >
                             <Check className="h-4 w-4" />
@@ -434,17 +621,45 @@ const QuestionDetailPage = () => {
                           </div>
                         )}
                         
-                        <div className="prose prose-sm max-w-none mb-4">
-                          <div className="whitespace-pre-wrap">{answer.content}</div>
-                        </div>
+                        <PostBody content={answer.content} className="mb-4" />
                         
                         {/* Answer Meta */}
-                        <div className="flex justify-end text-sm text-muted-foreground">
+                        <div className="flex flex-wrap items-start justify-between gap-2 text-sm text-muted-foreground">
+                          <PostActions
+                            editPath={user && !question.locked_at ? `/question/${question.id}/answers/${answer.id}/edit` : null}
+                            canEdit={canEdit(answer.user_id)}
+                            revisionsPath={`/question/${question.id}/revisions?answer=${answer.id}`}
+                            createdAt={answer.created_at}
+                            updatedAt={answer.updated_at}
+                          >
+                            {canFlag(answer.user_id) && (
+                              <button
+                                type="button"
+                                className="hover:text-primary"
+                                onClick={() => setFlagTarget({ type: 'answer', id: answer.id })}
+                              >
+                                flag
+                              </button>
+                            )}
+                          </PostActions>
                           <div>
                             <span>answered {formatTimeAgo(answer.created_at)} by </span>
-                            <span className="font-medium text-foreground">{answer.author_name}</span>
+                            <AuthorLink
+                              name={answer.author_name}
+                              userId={answer.user_id}
+                              reputation={answer.profiles?.reputation}
+                            />
                           </div>
                         </div>
+
+                        <CommentList
+                          questionId={question.id}
+                          targetType="answer"
+                          targetId={answer.id}
+                          postOwnerId={answer.user_id}
+                          questionOwnerId={question.user_id}
+                          locked={!!question.locked_at}
+                        />
                       </div>
                     </div>
                   </CardContent>
@@ -458,7 +673,15 @@ const QuestionDetailPage = () => {
           </div>
 
           {/* Submit Answer */}
-          {user ? (
+          {question.closed_at || question.locked_at ? (
+            <Card>
+              <CardContent className="p-6 text-center">
+                <p className="text-muted-foreground">
+                  This question is {question.locked_at ? 'locked' : 'closed'} and is not accepting new answers.
+                </p>
+              </CardContent>
+            </Card>
+          ) : user ? (
             <Card>
               <CardContent className="p-6">
                 <h3 className="text-lg font-semibold mb-4">Your Answer</h3>
@@ -466,15 +689,18 @@ const QuestionDetailPage = () => {
                   <RichTextEditor
                     value={newAnswer}
                     onChange={setNewAnswer}
+                    onUploadingChange={setUploadingImages}
                     placeholder="Write your answer here..."
                     className="min-h-[200px]"
                   />
                   <Button 
                     type="submit" 
                     className="w-full sm:w-auto"
-                    disabled={submitAnswerMutation.isPending}
+                    disabled={submitAnswerMutation.isPending || uploadingImages}
                   >
-                    {submitAnswerMutation.isPending ? "Posting..." : "Post Your Answer"}
+                    {submitAnswerMutation.isPending
+                      ? "Posting..."
+                      : uploadingImages ? "Uploading images..." : "Post Your Answer"}
                   </Button>
                 </form>
               </CardContent>
@@ -544,6 +770,8 @@ const QuestionDetailPage = () => {
           </Card>
         </div>
       </div>
+
+      <FlagDialog target={flagTarget} onClose={() => setFlagTarget(null)} />
     </div>
   );
 };
@@ -0,0 +1,403 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { AlertTriangle, ArrowLeft, Check, ClipboardCheck, Pencil, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import AuthorLink from "@/components/AuthorLink";
+import RichTextEditor from "@/components/RichTextEditor";
+import TagInput from "@/components/TagInput";
+import { InlineDiff, SideBySideDiff, TagsDiff } from "@/components/RevisionDiff";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePrivileges } from "@/hooks/use-privileges";
+import { formatTimeAgo } from "@/lib/utils";
+
+interface SuggestedEdit {
+  id: string;
+  target_type: string;
+  target_id: string;
+  question_id: string;
+  question_title: string;
+  base_revision: number;
+  current_revision: number;
+  title: string | null;
+  body: string;
+  tags: string[] | null;
+  summary: string;
+  suggested_by: string;
+  suggester_name: string | null;
+  created_at: string;
+  current_title: string | null;
+  current_body: string;
+  current_tags: string[] | null;
+}
+
+type ReviewAction = 'approve' | 'improve' | 'reject';
+type DiffView = 'side-by-side' | 'inline';
+
+interface ReviewInput {
+  edit: SuggestedEdit;
+  action: ReviewAction;
+  reason?: string;
+  title?: string;
+  body?: string;
+  tags?: string[];
+}
+
+const REVIEW_TOASTS: Record<ReviewAction, string> = {
+  approve: "The edit has been applied.",
+  improve: "Your improved version of the edit has been applied.",
+  reject: "The edit has been rejected.",
+};
+
+// Suggested edits waiting for review (/review). Reviewers see every pending
+// suggestion; everyone else sees the suggestions on their own posts.
+const ReviewQueuePage = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { can, missingReason } = usePrivileges();
+  const queryClient = useQueryClient();
+  const [view, setView] = useState<DiffView>('side-by-side');
+
+  // The suggestion being rejected or improved in the dialog
+  const [reviewing, setReviewing] = useState<{ edit: SuggestedEdit; action: 'improve' | 'reject' } | null>(null);
+  const [reason, setReason] = useState("");
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
+  const [uploadingImages, setUploadingImages] = useState(false);
+
+  const { data: edits, isLoading, error } = useQuery({
+    queryKey: ['suggested-edits', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('pending_suggested_edits');
+      if (error) throw error;
+      return data as SuggestedEdit[];
+    },
+    enabled: !!user,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ edit, action, reason, title, body, tags }: ReviewInput) => {
+      const { data, error } = await supabase.rpc('review_suggested_edit', {
+        p_edit_id: edit.id,
+        p_action: action,
+        p_reason: reason,
+        p_body: body,
+        p_title: title,
+        p_tags: tags,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_, { edit, action }) => {
+      queryClient.invalidateQueries({ queryKey: ['suggested-edits'] });
+      if (action !== 'reject') {
+        queryClient.invalidateQueries({ queryKey: ['question', edit.question_id] });
+        queryClient.invalidateQueries({ queryKey: ['answers', edit.question_id] });
+        queryClient.invalidateQueries({ queryKey: ['revisions', edit.question_id] });
+        queryClient.removeQueries({ queryKey: ['edit-post', edit.target_type, edit.target_id] });
+      }
+      setReviewing(null);
+      toast({
+        title: action === 'reject' ? "Edit rejected" : "Edit applied",
+        description: REVIEW_TOASTS[action]
+      });
+    },
+    onError: (error) => {
+      // The suggestion may have been reviewed by someone else in the meantime
+      queryClient.invalidateQueries({ queryKey: ['suggested-edits'] });
+      toast({
+        title: "Error reviewing edit",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const openDialog = (edit: SuggestedEdit, action: 'improve' | 'reject') => {
+    setReason("");
+    setTitle(edit.title ?? "");
+    setBody(edit.body);
+    setTags(edit.tags ?? []);
+    setReviewing({ edit, action });
+  };
+
+  const handleDialogSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reviewing || uploadingImages) return;
+
+    const { edit, action } = reviewing;
+    if (action === 'reject') {
+      if (!reason.trim()) {
+        toast({
+          title: "Reason required",
+          description: "Let the author of the edit know why it was rejected.",
+          variant: "destructive"
+        });
+        return;
+      }
+      reviewMutation.mutate({ edit, action, reason: reason.trim() });
+      return;
+    }
+
+    if (!body.trim() || (edit.target_type === 'question' && !title.trim())) {
+      toast({
+        title: "Missing content",
+        description: `The improved ${edit.target_type} can't be empty.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    reviewMutation.mutate({
+      edit,
+      action,
+      body,
+      title: edit.target_type === 'question' ? title : undefined,
+      tags: edit.target_type === 'question' ? tags : undefined,
+    });
+  };
+
+  if (!user) {
+    return (
+      <div className="container mx-auto px-4 py-12 text-center">
+        <h1 className="text-2xl font-bold mb-4">Authentication Required</h1>
+        <p className="text-muted-foreground mb-6">
+          You need to be logged in to review suggested edits.
+        </p>
+        <Button onClick={() => navigate("/auth")}>
+          Sign In
+        </Button>
+      </div>
+    );
+  }
+
+  const Diff = view === 'inline' ? InlineDiff : SideBySideDiff;
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-5xl">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-6">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => navigate(-1)}
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div className="flex-1 min-w-0">
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Suggested Edits
+          </h1>
+          {!can('review_queue') && (
+            <p className="text-sm text-muted-foreground">
+              Showing edits suggested on your posts. {missingReason('review_queue')}
+            </p>
+          )}
+        </div>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={view}
+          onValueChange={(value) => value && setView(value as DiffView)}
+        >
+          <ToggleGroupItem value="side-by-side">Side by side</ToggleGroupItem>
+          <ToggleGroupItem value="inline">Inline</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <div className="space-y-4">
+        {isLoading ? (
+          Array.from({ length: 2 }).map((_, i) => (
+            <Card key={i}>
+              <CardContent className="p-6 space-y-3">
+                <Skeleton className="h-5 w-1/3" />
+                <Skeleton className="h-24 w-full" />
+              </CardContent>
+            </Card>
+          ))
+        ) : error ? (
+          <div className="text-center py-8">
+            <p className="text-destructive">Error loading suggested edits. Please try again.</p>
+          </div>
+        ) : !edits || edits.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">There are no suggested edits to review.</p>
+          </div>
+        ) : (
+          edits.map((edit) => {
+            const outdated = edit.current_revision > edit.base_revision;
+
+            return (
+              <Card key={edit.id}>
+                <CardHeader className="pb-3 space-y-2">
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Badge variant="outline" className="capitalize">{edit.target_type}</Badge>
+                      <Link to={`/question/${edit.question_id}`} className="font-medium hover:text-primary truncate">
+                        {edit.question_title}
+                      </Link>
+                    </div>
+                    <span className="text-sm text-muted-foreground shrink-0">
+                      suggested {formatTimeAgo(edit.created_at)} by{' '}
+                      <AuthorLink name={edit.suggester_name || 'Unknown'} userId={edit.suggested_by} />
+                    </span>
+                  </div>
+                  <p className="text-sm">{edit.summary}</p>
+                  {outdated && (
+                    <div className="flex items-center gap-2 rounded-md border border-yellow-300 bg-yellow-50 p-2 text-sm text-yellow-900 dark:border-yellow-800 dark:bg-yellow-950 dark:text-yellow-200">
+                      <AlertTriangle className="h-4 w-4 shrink-0" />
+                      The post has been edited since this suggestion was made. Approving it will
+                      replace those changes.
+                    </div>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {edit.target_type === 'question' && edit.title !== edit.current_title && (
+                    <div>
+                      <h3 className="text-xs font-semibold uppercase text-muted-foreground mb-1">Title</h3>
+                      <InlineDiff before={edit.current_title ?? ''} after={edit.title ?? ''} />
+                    </div>
+                  )}
+
+                  {edit.body !== edit.current_body && (
+                    <div>
+                      <h3 className="text-xs font-semibold uppercase text-muted-foreground mb-1">Body</h3>
+                      <Diff before={edit.current_body} after={edit.body} />
+                    </div>
+                  )}
+
+                  {edit.target_type === 'question' &&
+                    (edit.tags ?? []).join() !== (edit.current_tags ?? []).join() && (
+                      <div>
+                        <h3 className="text-xs font-semibold uppercase text-muted-foreground mb-1">Tags</h3>
+                        <TagsDiff before={edit.current_tags ?? []} after={edit.tags ?? []} />
+                      </div>
+                    )}
+
+                  <div className="flex flex-wrap gap-2 pt-2">
+                    <Button
+                      size="sm"
+                      onClick={() => reviewMutation.mutate({ edit, action: 'approve' })}
+                      disabled={reviewMutation.isPending}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => openDialog(edit, 'improve')}
+                      disabled={reviewMutation.isPending}
+                    >
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Improve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => openDialog(edit, 'reject')}
+                      disabled={reviewMutation.isPending}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </div>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent className={reviewing?.action === 'improve' ? 'sm:max-w-3xl' : undefined}>
+          <form onSubmit={handleDialogSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>
+                {reviewing?.action === 'improve' ? 'Improve Edit' : 'Reject Edit'}
+              </DialogTitle>
+              <DialogDescription>
+                {reviewing?.action === 'improve'
+                  ? `Make further changes before applying the suggestion to the ${reviewing.edit.target_type}.`
+                  : 'The author of the edit will see your reason.'}
+              </DialogDescription>
+            </DialogHeader>
+
+            {reviewing?.action === 'reject' ? (
+              <div className="space-y-2">
+                <Label htmlFor="reject-reason">Reason</Label>
+                <Textarea
+                  id="reject-reason"
+                  placeholder="e.g. This edit changes the meaning of the post"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  maxLength={300}
+                />
+              </div>
+            ) : (
+              <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+                {reviewing?.edit.target_type === 'question' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="improve-title">Title</Label>
+                    <Input
+                      id="improve-title"
+                      value={title}
+                      onChange={(e) => setTitle(e.target.value)}
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label>Body</Label>
+                  <RichTextEditor value={body} onChange={setBody} onUploadingChange={setUploadingImages} />
+                </div>
+                {reviewing?.edit.target_type === 'question' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="improve-tags">Tags</Label>
+                    <TagInput id="improve-tags" tags={tags} onChange={setTags} />
+                  </div>
+                )}
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setReviewing(null)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant={reviewing?.action === 'reject' ? 'destructive' : 'default'}
+                disabled={reviewMutation.isPending || uploadingImages}
+              >
+                {reviewing?.action === 'reject' ? 'Reject' : 'Apply Edit'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ReviewQueuePage;
@@ -0,0 +1,226 @@
+import { Link, useSearchParams } from "react-router-dom";
+import { useMemo } from "react";
+import { AlertCircle, Calendar, MessageSquare, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { formatTimeAgo } from "@/lib/utils";
+import { splitHighlights } from "@/lib/search";
+import { buildSearchFilters, buildTextQuery, parseSearchQuery, SearchQueryError } from "@/lib/search-query";
+import { markdownToText } from "@/lib/markdown";
+import AuthorLink from "@/components/AuthorLink";
+import TagBadge from "@/components/TagBadge";
+
+const PAGE_SIZE = 20;
+
+const SEARCH_TIPS = [
+  ['[tag]', 'questions tagged with tag'],
+  ['user:name', 'questions asked by name'],
+  ['is:accepted', 'questions with an accepted answer'],
+  ['is:unanswered', 'questions with no answers'],
+  ['score:>=5', 'score of 5 or more (also score:1..10)'],
+  ['answers:0', 'number of answers'],
+  ['created:2026-01..2026-06', 'asked within a date range'],
+  ['"exact phrase"', 'match a whole phrase'],
+  ['-word', 'exclude a word, phrase or [tag]'],
+];
+
+const Highlighted = ({ text }: { text: string }) => (
+  <>
+    {splitHighlights(text).map((segment, i) =>
+      segment.highlighted ? (
+        <mark key={i} className="bg-yellow-200/70 text-foreground rounded-sm px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={i}>{segment.text}</span>
+      )
+    )}
+  </>
+);
+
+const SearchPage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q')?.trim() ?? '';
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+
+  const parsed = useMemo(() => {
+    try {
+      return { filters: parseSearchQuery(query), syntaxError: null };
+    } catch (err) {
+      if (err instanceof SearchQueryError) return { filters: null, syntaxError: err.message };
+      throw err;
+    }
+  }, [query]);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['search', query, page],
+    queryFn: async () => {
+      const from = (page - 1) * PAGE_SIZE;
+      const request = buildSearchFilters(parsed.filters).reduce(
+        (builder, filter) => builder.filter(filter.column, filter.operator, filter.value),
+        supabase.rpc('search_questions', { p_query: buildTextQuery(parsed.filters) }, { count: 'exact' })
+      );
+      const { data, count, error } = await request.range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      return { results: data, total: count ?? 0 };
+    },
+    enabled: query.length > 0 && parsed.filters !== null,
+  });
+
+  const totalPages = Math.ceil((data?.total ?? 0) / PAGE_SIZE);
+
+  const goToPage = (target: number) => {
+    setSearchParams(target === 1 ? { q: query } : { q: query, page: String(target) });
+    window.scrollTo({ top: 0 });
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-4xl">
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">Search Results</h1>
+        <p className="text-muted-foreground">
+          {!query
+            ? 'Type something in the search box to find questions.'
+            : parsed.syntaxError
+              ? `Couldn't search for "${query}"`
+              : data
+              ? `${data.total} result${data.total !== 1 ? 's' : ''} for "${query}"`
+              : `Searching for "${query}"...`}
+        </p>
+      </div>
+
+      {/* Results */}
+      <div className="space-y-4">
+        {!query ? null : parsed.syntaxError ? (
+          <div className="flex items-start gap-2 rounded-md border border-destructive/50 p-4 text-destructive">
+            <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+            <p className="text-sm">{parsed.syntaxError}</p>
+          </div>
+        ) : isLoading ? (
+          Array.from({ length: 3 }).map((_, i) => (
+            <Card key={i}>
+              <CardContent className="p-6 space-y-3">
+                <Skeleton className="h-6 w-3/4" />
+                <Skeleton className="h-4 w-full" />
+                <Skeleton className="h-4 w-2/3" />
+              </CardContent>
+            </Card>
+          ))
+        ) : error ? (
+          <div className="text-center py-8">
+            <p className="text-destructive">Error searching questions. Please try again.</p>
+          </div>
+        ) : data && data.results.length > 0 ? (
+          data.results.map((result) => (
+            <Card key={result.id} className="hover:shadow-md transition-shadow">
+              <CardContent className="p-6">
+                <div className="flex flex-col sm:flex-row gap-4">
+                  {/* Stats */}
+                  <div className="flex sm:flex-col gap-4 sm:gap-2 sm:w-20 sm:text-center text-sm">
+                    <div>
+                      <span className="font-semibold">{result.votes || 0}</span>
+                      <span className="text-muted-foreground"> votes</span>
+                    </div>
+                    <div className={result.has_accepted_answer ? 'text-green-600' : ''}>
+                      <span className="font-semibold">{result.answer_count}</span>
+                      <span className="text-muted-foreground"> answers</span>
+                    </div>
+                  </div>
+
+                  {/* Result */}
+                  <div className="flex-1 min-w-0">
+                    <Link
+                      to={`/question/${result.id}`}
+                      className="block hover:text-primary transition-colors"
+                    >
+                      <h3 className="text-lg font-semibold mb-2">
+                        <Highlighted text={result.title_highlight} />
+                      </h3>
+                    </Link>
+
+                    {result.snippet_source === 'answer' && (
+                      <div className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+                        <MessageSquare className="h-3 w-3" />
+                        <span>Matched in an answer</span>
+                      </div>
+                    )}
+                    <p className="text-muted-foreground text-sm mb-4 line-clamp-3">
+                      <Highlighted text={markdownToText(result.snippet)} />
+                    </p>
+
+                    {result.tags && result.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mb-4">
+                        {result.tags.map((tag) => (
+                          <TagBadge key={tag} tag={tag} className="text-xs" />
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2 text-sm text-muted-foreground">
+                      <div className="flex items-center gap-1">
+                        <Calendar className="h-3 w-3" />
+                        <span>asked {formatTimeAgo(result.created_at)}</span>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <span>by</span>
+                        <AuthorLink name={result.author_name} userId={result.user_id} />
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        ) : (
+          <div className="text-center py-12">
+            <Search className="h-8 w-8 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-semibold mb-2">No matching questions</h3>
+            <p className="text-muted-foreground mb-4">Try different keywords, or ask the community.</p>
+            <Button asChild>
+              <Link to="/ask">Ask Question</Link>
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Paging */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center gap-4 mt-6">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => goToPage(page - 1)}>
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {page} of {totalPages}
+          </span>
+          <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => goToPage(page + 1)}>
+            Next
+          </Button>
+        </div>
+      )}
+
+      {/* Syntax help */}
+      {(!query || parsed.syntaxError) && (
+        <Card className="mt-6">
+          <CardContent className="p-6">
+            <h3 className="font-semibold mb-3">Search tips</h3>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+              {SEARCH_TIPS.map(([syntax, meaning]) => (
+                <div key={syntax} className="flex gap-2">
+                  <dt><code className="bg-muted px-1 rounded">{syntax}</code></dt>
+                  <dd className="text-muted-foreground">{meaning}</dd>
+                </div>
+              ))}
+            </dl>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default SearchPage;
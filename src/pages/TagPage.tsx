@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { Link, Navigate, useParams } from "react-router-dom";
+import { Eye, EyeOff, Tag } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import AuthorLink from "@/components/AuthorLink";
+import PostBody from "@/components/PostBody";
+import QuestionList from "@/components/QuestionList";
+import { useAuth } from "@/contexts/AuthContext";
+import { useTagPreferences } from "@/hooks/use-tag-preferences";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { MAX_TAG_PATTERNS, normalizeTag, tagPath } from "@/lib/tags";
+
+type LeaderboardEntry = Database["public"]["Functions"]["tag_top_askers"]["Returns"][number];
+
+type Period = 'month' | 'all';
+
+const PERIOD_DAYS: Record<Period, number | undefined> = {
+  month: 30,
+  all: undefined,
+};
+
+const Leaderboard = ({ title, entries, unit }: { title: string; entries: LeaderboardEntry[]; unit: string }) => (
+  <div>
+    <h4 className="text-sm font-medium mb-2">{title}</h4>
+    {entries.length === 0 ? (
+      <p className="text-sm text-muted-foreground">Nobody yet.</p>
+    ) : (
+      <ol className="space-y-2 text-sm">
+        {entries.map((entry, i) => (
+          <li key={entry.user_id} className="flex items-center justify-between gap-2">
+            <span className="flex items-center gap-2 min-w-0">
+              <span className="w-4 text-muted-foreground">{i + 1}</span>
+              <AuthorLink name={entry.username || 'Anonymous'} userId={entry.user_id} reputation={entry.reputation} />
+            </span>
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {entry.post_count} {unit}{entry.post_count !== 1 ? 's' : ''} · score {entry.score}
+            </span>
+          </li>
+        ))}
+      </ol>
+    )}
+  </div>
+);
+
+// A tag's page (/tags/:tag): its wiki, its questions and who asks and
+// answers the most in it
+const TagPage = () => {
+  const { tag: param = '' } = useParams();
+  const slug = normalizeTag(param);
+  const [period, setPeriod] = useState<Period>('month');
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const preferences = useTagPreferences();
+
+  const { data: tag, isLoading } = useQuery({
+    queryKey: ['tag', slug],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tags')
+        .select('slug, excerpt, wiki, question_count, created_at')
+        .eq('slug', slug)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) return { ...data, master: null };
+
+      // Synonyms don't have a page of their own
+      const { data: synonym, error: synonymError } = await supabase
+        .from('tag_synonyms')
+        .select('target_slug')
+        .eq('source_slug', slug)
+        .eq('status', 'approved')
+        .maybeSingle();
+
+      if (synonymError) throw synonymError;
+      return synonym ? { master: synonym.target_slug } : null;
+    },
+  });
+
+  const { data: leaders, isLoading: leadersLoading } = useQuery({
+    queryKey: ['tag-leaderboard', slug, period],
+    queryFn: async () => {
+      const args = { p_tag: slug, p_days: PERIOD_DAYS[period] };
+      const [askers, answerers] = await Promise.all([
+        supabase.rpc('tag_top_askers', args),
+        supabase.rpc('tag_top_answerers', args),
+      ]);
+
+      if (askers.error) throw askers.error;
+      if (answerers.error) throw answerers.error;
+      return { askers: askers.data, answerers: answerers.data };
+    },
+    enabled: !!tag && !tag.master,
+  });
+
+  // Watching a tag stops ignoring it, and the other way round
+  const toggleTag = (key: 'watched_tags' | 'ignored_tags') => {
+    const other = key === 'watched_tags' ? 'ignored_tags' : 'watched_tags';
+    const list = preferences[key];
+
+    if (!list.includes(slug) && list.length >= MAX_TAG_PATTERNS) {
+      toast({
+        title: "Too many tags",
+        description: `You can ${key === 'watched_tags' ? 'watch' : 'ignore'} at most ${MAX_TAG_PATTERNS} tags. Remove some from the home page first.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    preferences.updatePreferences.mutate(
+      {
+        [key]: list.includes(slug) ? list.filter((t) => t !== slug) : [...list, slug],
+        [other]: preferences[other].filter((t) => t !== slug),
+      },
+      {
+        onError: (error) => {
+          toast({
+            title: "Error saving tags",
+            description: error.message,
+            variant: "destructive"
+          });
+        }
+      }
+    );
+  };
+
+  const watching = preferences.watched_tags.includes(slug);
+  const ignoring = preferences.ignored_tags.includes(slug);
+
+  if (tag?.master) {
+    return <Navigate to={tagPath(tag.master)} replace />;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="flex flex-col lg:flex-row gap-6">
+        {/* Main Content */}
+        <div className="flex-1 min-w-0">
+          <Card className="mb-6">
+            <CardContent className="p-6">
+              {isLoading ? (
+                <div className="space-y-3">
+                  <Skeleton className="h-7 w-40" />
+                  <Skeleton className="h-4 w-full" />
+                </div>
+              ) : tag && 'slug' in tag ? (
+                <>
+                  <div className="flex flex-wrap items-start justify-between gap-2 mb-2">
+                    <h1 className="text-2xl font-bold flex items-center gap-2">
+                      <Tag className="h-5 w-5" />
+                      {tag.slug}
+                    </h1>
+                    {user && (
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant={watching ? 'default' : 'outline'}
+                          onClick={() => toggleTag('watched_tags')}
+                        >
+                          <Eye className="h-4 w-4 mr-1" />
+                          {watching ? 'Watching' : 'Watch'}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant={ignoring ? 'secondary' : 'ghost'}
+                          onClick={() => toggleTag('ignored_tags')}
+                        >
+                          <EyeOff className="h-4 w-4 mr-1" />
+                          {ignoring ? 'Ignored' : 'Ignore'}
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  <p className="text-muted-foreground">
+                    {tag.excerpt || 'Nobody has described this tag yet.'}
+                  </p>
+                  {tag.wiki && <PostBody content={tag.wiki} className="mt-4" />}
+                </>
+              ) : (
+                <>
+                  <h1 className="text-2xl font-bold mb-2">{slug}</h1>
+                  <p className="text-muted-foreground">
+                    No questions use this tag yet. <Link to="/tags" className="text-primary hover:underline">Browse all tags</Link>
+                  </p>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <QuestionList key={slug} title={`Questions tagged [${slug}]`} tag={slug} />
+        </div>
+
+        {/* Sidebar */}
+        <div className="lg:w-80">
+          <Card>
+            <CardContent className="p-6 space-y-4">
+              <div className="flex items-center justify-between gap-2">
+                <h3 className="font-semibold">Top users</h3>
+                <Tabs value={period} onValueChange={(value) => setPeriod(value as Period)}>
+                  <TabsList className="h-8">
+                    <TabsTrigger value="month" className="text-xs">30 days</TabsTrigger>
+                    <TabsTrigger value="all" className="text-xs">All time</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+              </div>
+
+              {leadersLoading ? (
+                <div className="space-y-2">
+                  {Array.from({ length: 4 }).map((_, i) => (
+                    <Skeleton key={i} className="h-5 w-full" />
+                  ))}
+                </div>
+              ) : (
+                <>
+                  <Leaderboard title="Top answerers" entries={leaders?.answerers ?? []} unit="answer" />
+                  <Leaderboard title="Top askers" entries={leaders?.askers ?? []} unit="question" />
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TagPage;
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import TagBadge from "@/components/TagBadge";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { normalizeTag, TAG_SORTS, TagSort } from "@/lib/tags";
+import { formatTimeAgo } from "@/lib/utils";
+
+const PAGE_SIZE = 36;
+
+// Browse all tags (/tags), most used first by default
+const TagsPage = () => {
+  const [sortBy, setSortBy] = useState<TagSort>('popular');
+  const [filter, setFilter] = useState("");
+  const [page, setPage] = useState(1);
+
+  const search = normalizeTag(filter);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['tags', sortBy, search, page],
+    queryFn: async () => {
+      const sort = TAG_SORTS[sortBy];
+      const from = (page - 1) * PAGE_SIZE;
+
+      let query = supabase
+        .from('tags')
+        .select('id, slug, excerpt, question_count, created_at', { count: 'exact' });
+
+      if (search) {
+        // Escape LIKE wildcards; tags can't contain them anyway, but the filter box can
+        query = query.ilike('slug', `%${search.replace(/[%_\\]/g, '\\$&')}%`);
+      }
+
+      const { data, count, error } = await query
+        .order(sort.column, { ascending: sort.ascending })
+        .order('slug', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      return { tags: data, total: count ?? 0 };
+    },
+    placeholderData: (previous) => previous,
+  });
+
+  const totalPages = Math.ceil((data?.total ?? 0) / PAGE_SIZE);
+
+  const changeSort = (value: string) => {
+    setSortBy(value as TagSort);
+    setPage(1);
+  };
+
+  const changeFilter = (value: string) => {
+    setFilter(value);
+    setPage(1);
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-5xl">
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">Tags</h1>
+        <p className="text-muted-foreground">
+          A tag is a keyword that groups your question with similar ones. Using the right tags helps the right people find it.
+        </p>
+      </div>
+
+      <div className="flex flex-col sm:flex-row justify-between gap-4 mb-6">
+        <div className="relative sm:w-64">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Filter by tag name"
+            value={filter}
+            onChange={(e) => changeFilter(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+
+        <Tabs value={sortBy} onValueChange={changeSort}>
+          <TabsList>
+            {(Object.keys(TAG_SORTS) as TagSort[]).map((key) => (
+              <TabsTrigger key={key} value={key}>
+                {TAG_SORTS[key].label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {Array.from({ length: 6 }).map((_, i) => (
+            <Card key={i}>
+              <CardContent className="p-4 space-y-3">
+                <Skeleton className="h-6 w-24" />
+                <Skeleton className="h-4 w-full" />
+                <Skeleton className="h-4 w-2/3" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="text-center py-8">
+          <p className="text-destructive">Error loading tags. Please try again.</p>
+        </div>
+      ) : data && data.tags.length > 0 ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {data.tags.map((tag) => (
+            <Card key={tag.id}>
+              <CardContent className="p-4 flex flex-col h-full">
+                <div>
+                  <TagBadge tag={tag.slug} />
+                </div>
+                <p className="text-sm text-muted-foreground mt-3 mb-4 line-clamp-3 flex-1">
+                  {tag.excerpt || 'No description yet.'}
+                </p>
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>
+                    {tag.question_count} question{tag.question_count !== 1 ? 's' : ''}
+                  </span>
+                  <span>added {formatTimeAgo(tag.created_at)}</span>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <h3 className="text-lg font-semibold mb-2">No tags found</h3>
+          <p className="text-muted-foreground">
+            {search ? `No tag matches "${search}".` : 'Tags appear here once questions use them.'}
+          </p>
+        </div>
+      )}
+
+      {/* Paging */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center gap-4 mt-6">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {page} of {totalPages}
+          </span>
+          <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagsPage;
@@ -0,0 +1,206 @@
+import { useParams, useNavigate, Link } from "react-router-dom";
+import { ArrowLeft, Award, Calendar } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+interface Profile {
+  id: string;
+  username: string | null;
+  full_name: string | null;
+  reputation: number;
+  created_at: string;
+}
+
+interface ReputationEvent {
+  id: string;
+  event_type: string;
+  points: number;
+  is_reversal: boolean;
+  target_type: 'question' | 'answer';
+  target_id: string;
+  created_at: string;
+}
+
+const eventLabels: Record<string, string> = {
+  question_upvoted: "Question upvoted",
+  question_downvoted: "Question downvoted",
+  answer_upvoted: "Answer upvoted",
+  answer_downvoted: "Answer downvoted",
+  answer_accepted: "Answer accepted",
+  accepted_answer: "Accepted an answer",
+};
+
+const UserProfilePage = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+
+  const { data: profile, isLoading: profileLoading } = useQuery({
+    queryKey: ['profile', id],
+    queryFn: async () => {
+      if (!id) throw new Error('User ID is required');
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, username, full_name, reputation, created_at')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      return data as Profile;
+    },
+    enabled: !!id,
+  });
+
+  // Fetch the reputation log along with the questions each answer belongs to
+  const { data: history, isLoading: historyLoading } = useQuery({
+    queryKey: ['reputation-events', id],
+    queryFn: async () => {
+      if (!id) throw new Error('User ID is required');
+
+      const { data, error } = await supabase
+        .from('reputation_events')
+        .select('id, event_type, points, is_reversal, target_type, target_id, created_at')
+        .eq('user_id', id)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+
+      const events = data as ReputationEvent[];
+      const answerIds = events.filter(e => e.target_type === 'answer').map(e => e.target_id);
+      const questionIds: Record<string, string> = {};
+
+      if (answerIds.length > 0) {
+        const { data: answers, error: answersError } = await supabase
+          .from('answers')
+          .select('id, question_id')
+          .in('id', answerIds);
+
+        if (answersError) throw answersError;
+        answers.forEach(a => { questionIds[a.id] = a.question_id; });
+      }
+
+      return events.map(e => ({
+        ...e,
+        question_id: e.target_type === 'question' ? e.target_id : questionIds[e.target_id] ?? null,
+      }));
+    },
+    enabled: !!id,
+  });
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString(undefined, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  if (profileLoading) {
+    return (
+      <div className="container mx-auto px-4 py-6 max-w-4xl space-y-4">
+        <Skeleton className="h-8 w-1/3" />
+        <Skeleton className="h-32 w-full" />
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="container mx-auto px-4 py-6 max-w-4xl">
+        <div className="text-center py-12">
+          <h2 className="text-2xl font-bold mb-4">User not found</h2>
+          <Button onClick={() => navigate("/")}>
+            Back to Questions
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-4xl">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-6">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => navigate(-1)}
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div className="flex-1 min-w-0">
+          <h1 className="text-2xl font-bold">{profile.username || 'Anonymous'}</h1>
+          {profile.full_name && (
+            <p className="text-muted-foreground">{profile.full_name}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Stats */}
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            <div className="flex items-center gap-3">
+              <Award className="h-5 w-5 text-primary" />
+              <div>
+                <div className="text-2xl font-bold">{profile.reputation.toLocaleString()}</div>
+                <div className="text-sm text-muted-foreground">reputation</div>
+              </div>
+            </div>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Calendar className="h-4 w-4" />
+              <span>Member since {formatDate(profile.created_at)}</span>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Reputation History */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-lg">Reputation History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {historyLoading ? (
+              <div className="space-y-3">
+                <Skeleton className="h-6 w-full" />
+                <Skeleton className="h-6 w-full" />
+                <Skeleton className="h-6 w-2/3" />
+              </div>
+            ) : history && history.length > 0 ? (
+              <div className="divide-y">
+                {history.map((event) => (
+                  <div key={event.id} className="flex items-center gap-4 py-2 text-sm">
+                    <span className={`w-12 text-right font-semibold ${event.points > 0 ? 'text-green-600' : 'text-destructive'}`}>
+                      {event.points > 0 ? `+${event.points}` : event.points}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      {event.question_id ? (
+                        <Link to={`/question/${event.question_id}`} className="hover:text-primary">
+                          {eventLabels[event.event_type] ?? event.event_type}
+                        </Link>
+                      ) : (
+                        <span>{eventLabels[event.event_type] ?? event.event_type}</span>
+                      )}
+                      {event.is_reversal && (
+                        <span className="text-muted-foreground"> (reversed)</span>
+                      )}
+                    </div>
+                    <span className="text-muted-foreground">{formatDate(event.created_at)}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-muted-foreground text-sm">No reputation changes yet.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default UserProfilePage;
@@ -0,0 +1,114 @@
+-- Create votes ledger: one row per user per voted post
+CREATE TABLE public.votes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  target_type TEXT NOT NULL CHECK (target_type IN ('question', 'answer')),
+  target_id UUID NOT NULL,
+  value SMALLINT NOT NULL CHECK (value IN (-1, 1)),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, target_type, target_id)
+);
+
+CREATE INDEX votes_target_idx ON public.votes(target_type, target_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.votes ENABLE ROW LEVEL SECURITY;
+
+-- Votes policies: rows are only written through cast_vote()
+CREATE POLICY "Users can view their own votes" ON public.votes FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+-- Vote totals on posts are derived from the ledger. Owners may still update
+-- their own rows, so keep the totals pinned unless cast_vote() is syncing them.
+CREATE OR REPLACE FUNCTION public.protect_vote_totals()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('stackit.syncing_votes', true) IS DISTINCT FROM 'on' THEN
+    NEW.votes := OLD.votes;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_question_vote_totals
+  BEFORE UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_vote_totals();
+
+CREATE TRIGGER protect_answer_vote_totals
+  BEFORE UPDATE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.protect_vote_totals();
+
+-- Cast, change or retract (p_value = 0) the caller's vote and return the new total
+CREATE OR REPLACE FUNCTION public.cast_vote(p_target_type TEXT, p_target_id UUID, p_value INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_total INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to vote' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_value NOT IN (-1, 0, 1) THEN
+    RAISE EXCEPTION 'Invalid vote value: %', p_value USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock the target row so concurrent votes on the same post serialize
+  IF p_target_type = 'question' THEN
+    PERFORM 1 FROM public.questions WHERE id = p_target_id FOR UPDATE;
+  ELSIF p_target_type = 'answer' THEN
+    PERFORM 1 FROM public.answers WHERE id = p_target_id FOR UPDATE;
+  ELSE
+    RAISE EXCEPTION 'Invalid vote target: %', p_target_type USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The % you voted on no longer exists', p_target_type USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_value = 0 THEN
+    DELETE FROM public.votes
+    WHERE user_id = v_user_id AND target_type = p_target_type AND target_id = p_target_id;
+  ELSE
+    INSERT INTO public.votes (user_id, target_type, target_id, value)
+    VALUES (v_user_id, p_target_type, p_target_id, p_value)
+    ON CONFLICT (user_id, target_type, target_id)
+    DO UPDATE SET value = EXCLUDED.value, updated_at = now();
+  END IF;
+
+  SELECT COALESCE(SUM(value), 0) INTO v_total
+  FROM public.votes
+  WHERE target_type = p_target_type AND target_id = p_target_id;
+
+  PERFORM set_config('stackit.syncing_votes', 'on', true);
+
+  IF p_target_type = 'question' THEN
+    UPDATE public.questions SET votes = v_total WHERE id = p_target_id;
+  ELSE
+    UPDATE public.answers SET votes = v_total WHERE id = p_target_id;
+  END IF;
+
+  PERFORM set_config('stackit.syncing_votes', 'off', true);
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.cast_vote(TEXT, UUID, INTEGER) TO authenticated;
+
+-- Votes pointing at a deleted post are meaningless
+CREATE OR REPLACE FUNCTION public.delete_post_votes()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.votes WHERE target_type = TG_ARGV[0] AND target_id = OLD.id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_question_deleted_delete_votes
+  AFTER DELETE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.delete_post_votes('question');
+
+CREATE TRIGGER on_answer_deleted_delete_votes
+  AFTER DELETE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.delete_post_votes('answer');
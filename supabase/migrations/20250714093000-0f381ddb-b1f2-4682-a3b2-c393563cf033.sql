@@ -0,0 +1,60 @@
+-- Block voting on your own posts
+CREATE OR REPLACE FUNCTION public.cast_vote(p_target_type TEXT, p_target_id UUID, p_value INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_owner_id UUID;
+  v_total INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to vote' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_value NOT IN (-1, 0, 1) THEN
+    RAISE EXCEPTION 'Invalid vote value: %', p_value USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock the target row so concurrent votes on the same post serialize
+  IF p_target_type = 'question' THEN
+    SELECT user_id INTO v_owner_id FROM public.questions WHERE id = p_target_id FOR UPDATE;
+  ELSIF p_target_type = 'answer' THEN
+    SELECT user_id INTO v_owner_id FROM public.answers WHERE id = p_target_id FOR UPDATE;
+  ELSE
+    RAISE EXCEPTION 'Invalid vote target: %', p_target_type USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The % you voted on no longer exists', p_target_type USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_owner_id = v_user_id THEN
+    RAISE EXCEPTION 'You cannot vote on your own %', p_target_type USING ERRCODE = '42501';
+  END IF;
+
+  IF p_value = 0 THEN
+    DELETE FROM public.votes
+    WHERE user_id = v_user_id AND target_type = p_target_type AND target_id = p_target_id;
+  ELSE
+    INSERT INTO public.votes (user_id, target_type, target_id, value)
+    VALUES (v_user_id, p_target_type, p_target_id, p_value)
+    ON CONFLICT (user_id, target_type, target_id)
+    DO UPDATE SET value = EXCLUDED.value, updated_at = now();
+  END IF;
+
+  SELECT COALESCE(SUM(value), 0) INTO v_total
+  FROM public.votes
+  WHERE target_type = p_target_type AND target_id = p_target_id;
+
+  PERFORM set_config('stackit.syncing_votes', 'on', true);
+
+  IF p_target_type = 'question' THEN
+    UPDATE public.questions SET votes = v_total WHERE id = p_target_id;
+  ELSE
+    UPDATE public.answers SET votes = v_total WHERE id = p_target_id;
+  END IF;
+
+  PERFORM set_config('stackit.syncing_votes', 'off', true);
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
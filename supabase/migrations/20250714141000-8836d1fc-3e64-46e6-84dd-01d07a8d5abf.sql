@@ -0,0 +1,104 @@
+-- Accepted state is owned by accept_answer(). Keep it pinned on direct writes
+-- so answer authors can't accept their own answers.
+CREATE OR REPLACE FUNCTION public.protect_answer_accept_state()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.is_accepted := false;
+  ELSIF current_setting('stackit.syncing_accept', true) IS DISTINCT FROM 'on' THEN
+    NEW.is_accepted := OLD.is_accepted;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.protect_question_accept_state()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('stackit.syncing_accept', true) IS DISTINCT FROM 'on' THEN
+    NEW.has_accepted_answer := OLD.has_accepted_answer;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_answer_accept_state
+  BEFORE INSERT OR UPDATE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.protect_answer_accept_state();
+
+CREATE TRIGGER protect_question_accept_state
+  BEFORE UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_question_accept_state();
+
+-- Accept an answer, or un-accept it if it is already accepted. Returns the new accepted state.
+CREATE OR REPLACE FUNCTION public.accept_answer(p_answer_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_question_id UUID;
+  v_question_owner UUID;
+  v_was_accepted BOOLEAN;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to accept answers' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT question_id, COALESCE(is_accepted, false) INTO v_question_id, v_was_accepted
+  FROM public.answers
+  WHERE id = p_answer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Answer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock the question so concurrent accepts on it serialize
+  SELECT user_id INTO v_question_owner
+  FROM public.questions
+  WHERE id = v_question_id
+  FOR UPDATE;
+
+  IF v_question_owner IS DISTINCT FROM v_user_id THEN
+    RAISE EXCEPTION 'Only the question owner can accept answers' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_config('stackit.syncing_accept', 'on', true);
+
+  UPDATE public.answers
+  SET is_accepted = (id = p_answer_id AND NOT v_was_accepted)
+  WHERE question_id = v_question_id
+    AND (is_accepted OR id = p_answer_id);
+
+  UPDATE public.questions
+  SET has_accepted_answer = NOT v_was_accepted
+  WHERE id = v_question_id;
+
+  PERFORM set_config('stackit.syncing_accept', 'off', true);
+
+  RETURN NOT v_was_accepted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.accept_answer(UUID) TO authenticated;
+
+-- Deleting the accepted answer leaves the question without one
+CREATE OR REPLACE FUNCTION public.handle_accepted_answer_deleted()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.is_accepted THEN
+    PERFORM set_config('stackit.syncing_accept', 'on', true);
+
+    UPDATE public.questions
+    SET has_accepted_answer = EXISTS (
+      SELECT 1 FROM public.answers WHERE question_id = OLD.question_id AND is_accepted
+    )
+    WHERE id = OLD.question_id;
+
+    PERFORM set_config('stackit.syncing_accept', 'off', true);
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_answer_deleted_sync_accept_state
+  AFTER DELETE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.handle_accepted_answer_deleted();
@@ -0,0 +1,194 @@
+-- Create site settings table for tunable integer values
+CREATE TABLE public.site_settings (
+  key TEXT NOT NULL PRIMARY KEY,
+  value INTEGER NOT NULL,
+  description TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.site_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view site settings" ON public.site_settings FOR SELECT USING (true);
+
+INSERT INTO public.site_settings (key, value, description) VALUES
+('reputation.question_upvote', 5, 'Points the author gets when their question is upvoted'),
+('reputation.question_downvote', -2, 'Points the author gets when their question is downvoted'),
+('reputation.answer_upvote', 10, 'Points the author gets when their answer is upvoted'),
+('reputation.answer_downvote', -2, 'Points the author gets when their answer is downvoted'),
+('reputation.answer_accepted', 15, 'Points the author gets when their answer is accepted'),
+('reputation.accepted_answer', 2, 'Points the question owner gets for accepting an answer');
+
+-- Look up a site setting, falling back to 0 when it is missing
+CREATE OR REPLACE FUNCTION public.setting(p_key TEXT)
+RETURNS INTEGER AS $$
+  SELECT COALESCE((SELECT value FROM public.site_settings WHERE key = p_key), 0);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Add reputation to profiles
+ALTER TABLE public.profiles ADD COLUMN reputation INTEGER NOT NULL DEFAULT 1;
+
+-- Reputation is derived from reputation_events; pin it on direct profile updates
+CREATE OR REPLACE FUNCTION public.protect_reputation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('stackit.syncing_reputation', true) IS DISTINCT FROM 'on' THEN
+    NEW.reputation := OLD.reputation;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_profile_reputation
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_reputation();
+
+-- Create reputation history log
+CREATE TABLE public.reputation_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'question_upvoted', 'question_downvoted',
+    'answer_upvoted', 'answer_downvoted',
+    'answer_accepted', 'accepted_answer'
+  )),
+  points INTEGER NOT NULL,
+  is_reversal BOOLEAN NOT NULL DEFAULT false,
+  target_type TEXT NOT NULL CHECK (target_type IN ('question', 'answer')),
+  target_id UUID NOT NULL,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX reputation_events_user_id_idx ON public.reputation_events(user_id, created_at DESC);
+
+ALTER TABLE public.reputation_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view reputation events" ON public.reputation_events FOR SELECT USING (true);
+
+-- Record a reputation change and apply it to the user's profile.
+-- Reversals undo an earlier event of the same type with the opposite sign.
+CREATE OR REPLACE FUNCTION public.apply_reputation(
+  p_user_id UUID,
+  p_event_type TEXT,
+  p_points INTEGER,
+  p_is_reversal BOOLEAN,
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_actor_id UUID
+)
+RETURNS VOID AS $$
+DECLARE
+  v_points INTEGER := CASE WHEN p_is_reversal THEN -p_points ELSE p_points END;
+BEGIN
+  IF p_user_id IS NULL OR v_points = 0 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.reputation_events (user_id, event_type, points, is_reversal, target_type, target_id, actor_id)
+  VALUES (p_user_id, p_event_type, v_points, p_is_reversal, p_target_type, p_target_id, p_actor_id);
+
+  PERFORM set_config('stackit.syncing_reputation', 'on', true);
+
+  UPDATE public.profiles SET reputation = reputation + v_points WHERE id = p_user_id;
+
+  PERFORM set_config('stackit.syncing_reputation', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only triggers may hand out reputation
+REVOKE EXECUTE ON FUNCTION public.apply_reputation(UUID, TEXT, INTEGER, BOOLEAN, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Award or revoke the post author's reputation as votes are cast, changed or retracted
+CREATE OR REPLACE FUNCTION public.handle_vote_reputation()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_vote public.votes;
+  v_owner_id UUID;
+  v_direction TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_vote := OLD;
+  ELSE
+    v_vote := NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.value = OLD.value THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_vote.target_type = 'question' THEN
+    SELECT user_id INTO v_owner_id FROM public.questions WHERE id = v_vote.target_id;
+  ELSE
+    SELECT user_id INTO v_owner_id FROM public.answers WHERE id = v_vote.target_id;
+  END IF;
+
+  IF v_owner_id IS NULL THEN
+    RETURN v_vote;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    v_direction := CASE WHEN OLD.value > 0 THEN 'upvote' ELSE 'downvote' END;
+    PERFORM public.apply_reputation(
+      v_owner_id, OLD.target_type || '_' || v_direction || 'd',
+      public.setting('reputation.' || OLD.target_type || '_' || v_direction),
+      true, OLD.target_type, OLD.target_id, OLD.user_id
+    );
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    v_direction := CASE WHEN NEW.value > 0 THEN 'upvote' ELSE 'downvote' END;
+    PERFORM public.apply_reputation(
+      v_owner_id, NEW.target_type || '_' || v_direction || 'd',
+      public.setting('reputation.' || NEW.target_type || '_' || v_direction),
+      false, NEW.target_type, NEW.target_id, NEW.user_id
+    );
+  END IF;
+
+  RETURN v_vote;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_vote_changed_update_reputation
+  AFTER INSERT OR UPDATE OR DELETE ON public.votes
+  FOR EACH ROW EXECUTE FUNCTION public.handle_vote_reputation();
+
+-- Award or revoke accept reputation for both the answerer and the question owner
+CREATE OR REPLACE FUNCTION public.handle_accept_reputation()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_question_owner UUID;
+  v_is_reversal BOOLEAN := NOT COALESCE(NEW.is_accepted, false);
+BEGIN
+  IF COALESCE(NEW.is_accepted, false) = COALESCE(OLD.is_accepted, false) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id INTO v_question_owner FROM public.questions WHERE id = NEW.question_id;
+
+  -- Accepting your own answer earns nothing
+  IF NEW.user_id IS NULL OR NEW.user_id = v_question_owner THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.apply_reputation(
+    NEW.user_id, 'answer_accepted', public.setting('reputation.answer_accepted'),
+    v_is_reversal, 'answer', NEW.id, v_question_owner
+  );
+  PERFORM public.apply_reputation(
+    v_question_owner, 'accepted_answer', public.setting('reputation.accepted_answer'),
+    v_is_reversal, 'answer', NEW.id, v_question_owner
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_answer_accept_changed_update_reputation
+  AFTER UPDATE OF is_accepted ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.handle_accept_reputation();
+
+-- Let post queries embed the author's profile
+ALTER TABLE public.questions
+  ADD CONSTRAINT questions_user_id_profiles_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE CASCADE;
+ALTER TABLE public.answers
+  ADD CONSTRAINT answers_user_id_profiles_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE CASCADE;
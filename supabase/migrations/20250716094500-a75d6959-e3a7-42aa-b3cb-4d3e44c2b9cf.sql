@@ -0,0 +1,117 @@
+-- Create privileges table: actions unlocked at a reputation threshold
+CREATE TABLE public.privileges (
+  key TEXT NOT NULL PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL,
+  min_reputation INTEGER NOT NULL
+);
+
+ALTER TABLE public.privileges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view privileges" ON public.privileges FOR SELECT USING (true);
+
+INSERT INTO public.privileges (key, name, description, min_reputation) VALUES
+('comment', 'Comment everywhere', 'Leave comments on other people''s questions and answers', 50),
+('downvote', 'Downvote', 'Indicate when questions and answers are not useful', 125),
+('review_queue', 'Access review queues', 'Review suggested edits and other community tasks', 500),
+('edit_posts', 'Edit others'' posts', 'Edit any question or answer directly', 2000),
+('close_vote', 'Cast close and reopen votes', 'Vote to close or reopen questions', 3000),
+('moderator_tools', 'Access moderator tools', 'Roll back edits and help moderate the site', 10000);
+
+-- Check whether a user's reputation unlocks a privilege
+CREATE OR REPLACE FUNCTION public.has_privilege(p_user_id UUID, p_key TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.privileges pr
+    JOIN public.profiles p ON p.id = p_user_id
+    WHERE pr.key = p_key AND p.reputation >= pr.min_reputation
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Downvoting requires the downvote privilege
+CREATE OR REPLACE FUNCTION public.cast_vote(p_target_type TEXT, p_target_id UUID, p_value INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_owner_id UUID;
+  v_total INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to vote' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_value NOT IN (-1, 0, 1) THEN
+    RAISE EXCEPTION 'Invalid vote value: %', p_value USING ERRCODE = '22023';
+  END IF;
+
+  IF p_value = -1 AND NOT public.has_privilege(v_user_id, 'downvote') THEN
+    RAISE EXCEPTION 'You do not have enough reputation to downvote' USING ERRCODE = '42501';
+  END IF;
+
+  -- Lock the target row so concurrent votes on the same post serialize
+  IF p_target_type = 'question' THEN
+    SELECT user_id INTO v_owner_id FROM public.questions WHERE id = p_target_id FOR UPDATE;
+  ELSIF p_target_type = 'answer' THEN
+    SELECT user_id INTO v_owner_id FROM public.answers WHERE id = p_target_id FOR UPDATE;
+  ELSE
+    RAISE EXCEPTION 'Invalid vote target: %', p_target_type USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The % you voted on no longer exists', p_target_type USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_owner_id = v_user_id THEN
+    RAISE EXCEPTION 'You cannot vote on your own %', p_target_type USING ERRCODE = '42501';
+  END IF;
+
+  IF p_value = 0 THEN
+    DELETE FROM public.votes
+    WHERE user_id = v_user_id AND target_type = p_target_type AND target_id = p_target_id;
+  ELSE
+    INSERT INTO public.votes (user_id, target_type, target_id, value)
+    VALUES (v_user_id, p_target_type, p_target_id, p_value)
+    ON CONFLICT (user_id, target_type, target_id)
+    DO UPDATE SET value = EXCLUDED.value, updated_at = now();
+  END IF;
+
+  SELECT COALESCE(SUM(value), 0) INTO v_total
+  FROM public.votes
+  WHERE target_type = p_target_type AND target_id = p_target_id;
+
+  PERFORM set_config('stackit.syncing_votes', 'on', true);
+
+  IF p_target_type = 'question' THEN
+    UPDATE public.questions SET votes = v_total WHERE id = p_target_id;
+  ELSE
+    UPDATE public.answers SET votes = v_total WHERE id = p_target_id;
+  END IF;
+
+  PERFORM set_config('stackit.syncing_votes', 'off', true);
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Editors with the edit privilege may update other people's posts
+CREATE POLICY "Privileged users can update any question" ON public.questions FOR UPDATE TO authenticated USING (public.has_privilege(auth.uid(), 'edit_posts'));
+CREATE POLICY "Privileged users can update any answer" ON public.answers FOR UPDATE TO authenticated USING (public.has_privilege(auth.uid(), 'edit_posts'));
+
+-- Editing a post never changes who wrote it
+CREATE OR REPLACE FUNCTION public.protect_post_author()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.user_id := OLD.user_id;
+  NEW.author_name := OLD.author_name;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_question_author
+  BEFORE UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_post_author();
+
+CREATE TRIGGER protect_answer_author
+  BEFORE UPDATE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.protect_post_author();
@@ -0,0 +1,143 @@
+-- Create comments table: short remarks attached to a question or an answer
+CREATE TABLE public.comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  target_type TEXT NOT NULL CHECK (target_type IN ('question', 'answer')),
+  target_id UUID NOT NULL,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  content TEXT NOT NULL CHECK (char_length(content) BETWEEN 15 AND 600),
+  author_name TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  votes INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX comments_question_id_idx ON public.comments(question_id, created_at);
+CREATE INDEX comments_target_idx ON public.comments(target_type, target_id);
+
+-- Create comment upvotes: comments can only be upvoted, once per user
+CREATE TABLE public.comment_votes (
+  comment_id UUID NOT NULL REFERENCES public.comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (comment_id, user_id)
+);
+
+INSERT INTO public.site_settings (key, value, description) VALUES
+('comments.edit_window_minutes', 5, 'Minutes after posting during which a comment can be edited');
+
+-- Enable Row Level Security
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.comment_votes ENABLE ROW LEVEL SECURITY;
+
+-- Whether a user may comment on a post: everyone can comment on their own
+-- posts and on answers to their questions, otherwise the privilege is needed
+CREATE OR REPLACE FUNCTION public.can_comment_on(p_user_id UUID, p_target_type TEXT, p_target_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT public.has_privilege(p_user_id, 'comment')
+    OR EXISTS (
+      SELECT 1 FROM public.questions q
+      WHERE p_target_type = 'question' AND q.id = p_target_id AND q.user_id = p_user_id
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.answers a
+      JOIN public.questions q ON q.id = a.question_id
+      WHERE p_target_type = 'answer' AND a.id = p_target_id
+        AND (a.user_id = p_user_id OR q.user_id = p_user_id)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Comments policies
+CREATE POLICY "Anyone can view comments" ON public.comments FOR SELECT USING (true);
+CREATE POLICY "Users can comment where they are allowed" ON public.comments FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.can_comment_on(auth.uid(), target_type, target_id));
+CREATE POLICY "Users can edit their own recent comments" ON public.comments FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id AND created_at > now() - make_interval(mins => public.setting('comments.edit_window_minutes')));
+CREATE POLICY "Users can delete their own comments" ON public.comments FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+-- Comment votes policies: rows are only written through toggle_comment_upvote()
+CREATE POLICY "Users can view their own comment votes" ON public.comment_votes FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+-- Resolve the owning question on insert and pin everything but the text on update
+CREATE OR REPLACE FUNCTION public.prepare_comment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.target_type = 'question' THEN
+      NEW.question_id := NEW.target_id;
+    ELSE
+      SELECT question_id INTO NEW.question_id FROM public.answers WHERE id = NEW.target_id;
+    END IF;
+    NEW.votes := 0;
+  ELSE
+    NEW.target_type := OLD.target_type;
+    NEW.target_id := OLD.target_id;
+    NEW.question_id := OLD.question_id;
+    NEW.user_id := OLD.user_id;
+    NEW.author_name := OLD.author_name;
+    NEW.created_at := OLD.created_at;
+    NEW.updated_at := CASE WHEN NEW.content IS DISTINCT FROM OLD.content THEN now() ELSE OLD.updated_at END;
+    IF current_setting('stackit.syncing_votes', true) IS DISTINCT FROM 'on' THEN
+      NEW.votes := OLD.votes;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER prepare_comment
+  BEFORE INSERT OR UPDATE ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.prepare_comment();
+
+-- Comments on a deleted answer go with it
+CREATE OR REPLACE FUNCTION public.delete_post_comments()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.comments WHERE target_type = TG_ARGV[0] AND target_id = OLD.id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_answer_deleted_delete_comments
+  AFTER DELETE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.delete_post_comments('answer');
+
+-- Upvote a comment, or retract the caller's upvote. Returns the new total.
+CREATE OR REPLACE FUNCTION public.toggle_comment_upvote(p_comment_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_owner_id UUID;
+  v_total INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to vote' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT user_id INTO v_owner_id FROM public.comments WHERE id = p_comment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The comment you voted on no longer exists' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_owner_id = v_user_id THEN
+    RAISE EXCEPTION 'You cannot vote on your own comment' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.comment_votes WHERE comment_id = p_comment_id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.comment_votes (comment_id, user_id) VALUES (p_comment_id, v_user_id);
+  END IF;
+
+  SELECT COUNT(*) INTO v_total FROM public.comment_votes WHERE comment_id = p_comment_id;
+
+  PERFORM set_config('stackit.syncing_votes', 'on', true);
+  UPDATE public.comments SET votes = v_total WHERE id = p_comment_id;
+  PERFORM set_config('stackit.syncing_votes', 'off', true);
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.toggle_comment_upvote(UUID) TO authenticated;
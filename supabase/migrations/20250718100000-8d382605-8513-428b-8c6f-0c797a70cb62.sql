@@ -0,0 +1,189 @@
+-- Create notifications table: one row per event a user should hear about
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  actor_name TEXT,
+  type TEXT NOT NULL CHECK (type IN ('answer', 'accepted', 'vote_milestone', 'mention', 'comment')),
+  question_id UUID REFERENCES public.questions(id) ON DELETE CASCADE,
+  answer_id UUID REFERENCES public.answers(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  data JSONB NOT NULL DEFAULT '{}',
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX notifications_user_id_idx ON public.notifications(user_id, created_at DESC);
+CREATE INDEX notifications_unread_idx ON public.notifications(user_id) WHERE read_at IS NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Notifications policies: rows are only created by triggers
+CREATE POLICY "Users can view their own notifications" ON public.notifications FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can update their own notifications" ON public.notifications FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own notifications" ON public.notifications FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+-- Stream new notifications to the recipient's browser
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Queue a notification. Nobody is notified about their own actions.
+CREATE OR REPLACE FUNCTION public.create_notification(
+  p_user_id UUID,
+  p_actor_id UUID,
+  p_type TEXT,
+  p_question_id UUID,
+  p_answer_id UUID DEFAULT NULL,
+  p_comment_id UUID DEFAULT NULL,
+  p_data JSONB DEFAULT '{}'
+)
+RETURNS VOID AS $$
+BEGIN
+  IF p_user_id IS NULL OR p_user_id = p_actor_id THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, actor_id, actor_name, type, question_id, answer_id, comment_id, data)
+  VALUES (
+    p_user_id,
+    p_actor_id,
+    (SELECT username FROM public.profiles WHERE id = p_actor_id),
+    p_type,
+    p_question_id,
+    p_answer_id,
+    p_comment_id,
+    p_data
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_notification(UUID, UUID, TEXT, UUID, UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- New answer on my question
+CREATE OR REPLACE FUNCTION public.notify_new_answer()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.create_notification(
+    (SELECT user_id FROM public.questions WHERE id = NEW.question_id),
+    NEW.user_id, 'answer', NEW.question_id, NEW.id
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_answer_created_notify
+  AFTER INSERT ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.notify_new_answer();
+
+-- My answer was accepted
+CREATE OR REPLACE FUNCTION public.notify_answer_accepted()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(NEW.is_accepted, false) AND NOT COALESCE(OLD.is_accepted, false) THEN
+    PERFORM public.create_notification(
+      NEW.user_id,
+      (SELECT user_id FROM public.questions WHERE id = NEW.question_id),
+      'accepted', NEW.question_id, NEW.id
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_answer_accepted_notify
+  AFTER UPDATE OF is_accepted ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.notify_answer_accepted();
+
+-- My post's score crossed a milestone. Each milestone is only announced once.
+CREATE OR REPLACE FUNCTION public.notify_vote_milestone()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_milestone INTEGER;
+  v_question_id UUID;
+  v_answer_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'questions' THEN
+    v_question_id := NEW.id;
+  ELSE
+    v_question_id := NEW.question_id;
+    v_answer_id := NEW.id;
+  END IF;
+
+  FOR v_milestone IN
+    SELECT m FROM unnest(ARRAY[10, 25, 50, 100, 250, 500, 1000]) AS m
+    WHERE COALESCE(OLD.votes, 0) < m AND COALESCE(NEW.votes, 0) >= m
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM public.notifications
+      WHERE user_id = NEW.user_id
+        AND type = 'vote_milestone'
+        AND question_id = v_question_id
+        AND answer_id IS NOT DISTINCT FROM v_answer_id
+        AND (data->>'milestone')::INTEGER = v_milestone
+    ) THEN
+      PERFORM public.create_notification(
+        NEW.user_id, NULL, 'vote_milestone', v_question_id, v_answer_id, NULL,
+        jsonb_build_object('milestone', v_milestone)
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_question_votes_changed_notify
+  AFTER UPDATE OF votes ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.notify_vote_milestone();
+
+CREATE TRIGGER on_answer_votes_changed_notify
+  AFTER UPDATE OF votes ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.notify_vote_milestone();
+
+-- Notify users @mentioned by username in a piece of text
+CREATE OR REPLACE FUNCTION public.notify_username_mentions(
+  p_content TEXT,
+  p_actor_id UUID,
+  p_question_id UUID,
+  p_answer_id UUID,
+  p_comment_id UUID
+)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  FOR v_user_id IN
+    SELECT DISTINCT p.id
+    FROM regexp_matches(p_content, '(?:^|[^\w@])@([\w.-]+)', 'g') AS m
+    JOIN public.profiles p ON lower(p.username) = lower(m[1])
+  LOOP
+    PERFORM public.create_notification(v_user_id, p_actor_id, 'mention', p_question_id, p_answer_id, p_comment_id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.notify_username_mentions(TEXT, UUID, UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- New comment on my post, plus anyone @mentioned in it
+CREATE OR REPLACE FUNCTION public.notify_new_comment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_answer_id UUID := CASE WHEN NEW.target_type = 'answer' THEN NEW.target_id END;
+  v_post_owner UUID;
+BEGIN
+  IF NEW.target_type = 'question' THEN
+    SELECT user_id INTO v_post_owner FROM public.questions WHERE id = NEW.target_id;
+  ELSE
+    SELECT user_id INTO v_post_owner FROM public.answers WHERE id = NEW.target_id;
+  END IF;
+
+  PERFORM public.create_notification(v_post_owner, NEW.user_id, 'comment', NEW.question_id, v_answer_id, NEW.id);
+  PERFORM public.notify_username_mentions(NEW.content, NEW.user_id, NEW.question_id, v_answer_id, NEW.id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_comment_created_notify
+  AFTER INSERT ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.notify_new_comment();
@@ -0,0 +1,54 @@
+-- Posts reference users with stable mention tokens: @[username](user:<profile id>)
+CREATE OR REPLACE FUNCTION public.mentioned_user_ids(p_content TEXT)
+RETURNS SETOF UUID AS $$
+  SELECT DISTINCT m[1]::UUID
+  FROM regexp_matches(
+    COALESCE(p_content, ''),
+    '@\[[^\]\n]+\]\(user:([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})\)',
+    'g'
+  ) AS m;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Notify users mentioned in a question or answer. On edits only newly added
+-- mentions are notified so fixing a typo doesn't ping everyone again.
+CREATE OR REPLACE FUNCTION public.notify_post_mentions()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_content TEXT;
+  v_old_content TEXT;
+  v_question_id UUID;
+  v_answer_id UUID;
+  v_user_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'questions' THEN
+    v_content := NEW.description;
+    v_old_content := CASE WHEN TG_OP = 'UPDATE' THEN OLD.description END;
+    v_question_id := NEW.id;
+  ELSE
+    v_content := NEW.content;
+    v_old_content := CASE WHEN TG_OP = 'UPDATE' THEN OLD.content END;
+    v_question_id := NEW.question_id;
+    v_answer_id := NEW.id;
+  END IF;
+
+  FOR v_user_id IN
+    SELECT id FROM public.mentioned_user_ids(v_content) AS id
+    EXCEPT
+    SELECT id FROM public.mentioned_user_ids(v_old_content) AS id
+  LOOP
+    IF EXISTS (SELECT 1 FROM public.profiles WHERE id = v_user_id) THEN
+      PERFORM public.create_notification(v_user_id, COALESCE(auth.uid(), NEW.user_id), 'mention', v_question_id, v_answer_id);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_question_saved_notify_mentions
+  AFTER INSERT OR UPDATE OF description ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.notify_post_mentions();
+
+CREATE TRIGGER on_answer_saved_notify_mentions
+  AFTER INSERT OR UPDATE OF content ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.notify_post_mentions();
@@ -0,0 +1,77 @@
+-- Index answer bodies so a question can be found by the text of its answers
+CREATE INDEX answers_content_search_idx ON public.answers USING gin(to_tsvector('english', content));
+
+-- Full-text search over question titles, descriptions and answer bodies.
+-- Highlights in title_highlight and snippet are wrapped in chr(2) ... chr(3)
+-- so the client can render them without trusting any HTML in post bodies.
+CREATE OR REPLACE FUNCTION public.search_questions(p_query TEXT)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  tags TEXT[],
+  author_name TEXT,
+  user_id UUID,
+  votes INTEGER,
+  views INTEGER,
+  has_accepted_answer BOOLEAN,
+  answer_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  snippet_source TEXT,
+  matched_answer_id UUID
+) AS $$
+  WITH search AS (
+    SELECT
+      websearch_to_tsquery('english', p_query) AS query,
+      format('StartSel=%s, StopSel=%s', chr(2), chr(3)) AS options
+  ),
+  answer_hits AS (
+    SELECT DISTINCT ON (a.question_id)
+      a.question_id,
+      a.id,
+      a.content,
+      ts_rank(to_tsvector('english', a.content), s.query) AS rank
+    FROM public.answers a, search s
+    WHERE to_tsvector('english', a.content) @@ s.query
+    ORDER BY a.question_id, rank DESC
+  )
+  SELECT
+    q.id,
+    q.title,
+    q.tags,
+    q.author_name,
+    q.user_id,
+    q.votes,
+    q.views,
+    q.has_accepted_answer,
+    (SELECT COUNT(*) FROM public.answers a WHERE a.question_id = q.id)::INTEGER AS answer_count,
+    q.created_at,
+    (
+      ts_rank(
+        setweight(to_tsvector('english', q.title), 'A') || setweight(to_tsvector('english', q.description), 'B'),
+        s.query
+      ) + COALESCE(ah.rank, 0) * 0.5
+    )::REAL AS rank,
+    ts_headline('english', q.title, s.query, s.options || ', HighlightAll=true') AS title_highlight,
+    CASE
+      WHEN ah.id IS NOT NULL AND NOT to_tsvector('english', q.description) @@ s.query
+        THEN ts_headline('english', ah.content, s.query, s.options || ', MaxWords=35, MinWords=15')
+      ELSE ts_headline('english', q.description, s.query, s.options || ', MaxWords=35, MinWords=15')
+    END AS snippet,
+    CASE
+      WHEN ah.id IS NOT NULL AND NOT to_tsvector('english', q.description) @@ s.query THEN 'answer'
+      ELSE 'question'
+    END AS snippet_source,
+    ah.id AS matched_answer_id
+  FROM public.questions q
+  CROSS JOIN search s
+  LEFT JOIN answer_hits ah ON ah.question_id = q.id
+  WHERE to_tsvector('english', q.title) @@ s.query
+    OR to_tsvector('english', q.description) @@ s.query
+    OR ah.id IS NOT NULL
+  ORDER BY rank DESC, q.created_at DESC;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_questions(TEXT) TO anon, authenticated;
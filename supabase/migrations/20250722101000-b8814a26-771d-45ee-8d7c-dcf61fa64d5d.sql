@@ -0,0 +1,33 @@
+-- Public bucket for images embedded in questions and answers. Size and type
+-- limits are enforced by storage itself, matching the editor's checks.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'post-images',
+  'post-images',
+  true,
+  5242880,
+  ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Anyone can view post images
+CREATE POLICY "Post images are publicly accessible"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'post-images');
+
+-- Signed-in users upload into a folder named after their user id
+CREATE POLICY "Users can upload post images to their own folder"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'post-images'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete their own post images"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'post-images'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
@@ -0,0 +1,260 @@
+-- Create post revisions: every version of a question or answer, numbered per post
+CREATE TABLE public.post_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  target_type TEXT NOT NULL CHECK (target_type IN ('question', 'answer')),
+  target_id UUID NOT NULL,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  title TEXT,
+  body TEXT NOT NULL,
+  tags TEXT[],
+  editor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  summary TEXT CHECK (char_length(summary) <= 300),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (target_type, target_id, revision_number)
+);
+
+CREATE INDEX post_revisions_question_id_idx ON public.post_revisions(question_id);
+
+ALTER TABLE public.post_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are public; rows are only written by the triggers below
+CREATE POLICY "Anyone can view post revisions" ON public.post_revisions FOR SELECT USING (true);
+
+-- Only content edits move updated_at, so it can be shown as "edited"
+CREATE OR REPLACE FUNCTION public.touch_edited_post()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'questions' THEN
+    NEW.updated_at := CASE
+      WHEN NEW.title IS DISTINCT FROM OLD.title
+        OR NEW.description IS DISTINCT FROM OLD.description
+        OR NEW.tags IS DISTINCT FROM OLD.tags
+      THEN now() ELSE OLD.updated_at
+    END;
+  ELSE
+    NEW.updated_at := CASE WHEN NEW.content IS DISTINCT FROM OLD.content THEN now() ELSE OLD.updated_at END;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER touch_edited_question
+  BEFORE UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.touch_edited_post();
+
+CREATE TRIGGER touch_edited_answer
+  BEFORE UPDATE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.touch_edited_post();
+
+-- Store a revision when a post is created and whenever its content changes.
+-- edit_post() and rollback_post() pass the edit summary in stackit.edit_summary.
+CREATE OR REPLACE FUNCTION public.record_post_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_target_type TEXT := CASE WHEN TG_TABLE_NAME = 'questions' THEN 'question' ELSE 'answer' END;
+  v_question_id UUID;
+  v_title TEXT;
+  v_body TEXT;
+  v_tags TEXT[];
+BEGIN
+  IF v_target_type = 'question' THEN
+    IF TG_OP = 'UPDATE'
+      AND NEW.title IS NOT DISTINCT FROM OLD.title
+      AND NEW.description IS NOT DISTINCT FROM OLD.description
+      AND NEW.tags IS NOT DISTINCT FROM OLD.tags
+    THEN
+      RETURN NULL;
+    END IF;
+    v_question_id := NEW.id;
+    v_title := NEW.title;
+    v_body := NEW.description;
+    v_tags := NEW.tags;
+  ELSE
+    IF TG_OP = 'UPDATE' AND NEW.content IS NOT DISTINCT FROM OLD.content THEN
+      RETURN NULL;
+    END IF;
+    v_question_id := NEW.question_id;
+    v_body := NEW.content;
+  END IF;
+
+  INSERT INTO public.post_revisions (target_type, target_id, question_id, revision_number, title, body, tags, editor_id, summary)
+  VALUES (
+    v_target_type,
+    NEW.id,
+    v_question_id,
+    (
+      SELECT COALESCE(MAX(revision_number), 0) + 1 FROM public.post_revisions
+      WHERE target_type = v_target_type AND target_id = NEW.id
+    ),
+    v_title,
+    v_body,
+    v_tags,
+    COALESCE(auth.uid(), NEW.user_id),
+    CASE WHEN TG_OP = 'UPDATE' THEN NULLIF(current_setting('stackit.edit_summary', true), '') END
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_question_saved_record_revision
+  AFTER INSERT OR UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.record_post_revision();
+
+CREATE TRIGGER on_answer_saved_record_revision
+  AFTER INSERT OR UPDATE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.record_post_revision();
+
+-- Answer revisions go with the answer (question revisions cascade)
+CREATE OR REPLACE FUNCTION public.delete_answer_revisions()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.post_revisions WHERE target_type = 'answer' AND target_id = OLD.id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_answer_deleted_delete_revisions
+  AFTER DELETE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.delete_answer_revisions();
+
+-- Existing posts start with their current content as revision 1
+INSERT INTO public.post_revisions (target_type, target_id, question_id, revision_number, title, body, tags, editor_id, created_at)
+SELECT 'question', q.id, q.id, 1, q.title, q.description, q.tags, q.user_id, q.created_at
+FROM public.questions q;
+
+INSERT INTO public.post_revisions (target_type, target_id, question_id, revision_number, body, editor_id, created_at)
+SELECT 'answer', a.id, a.question_id, 1, a.content, a.user_id, a.created_at
+FROM public.answers a;
+
+-- Whether a user may edit a post directly: its author, or anyone with the edit privilege
+CREATE OR REPLACE FUNCTION public.can_edit_post(p_user_id UUID, p_owner_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT p_user_id = p_owner_id OR public.has_privilege(p_user_id, 'edit_posts');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Edit a question or answer with an optional summary. Returns the post's
+-- latest revision number (unchanged if nothing was edited).
+CREATE OR REPLACE FUNCTION public.edit_post(
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_body TEXT,
+  p_title TEXT DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_summary TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_owner_id UUID;
+  v_revision INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to edit posts' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_target_type = 'question' THEN
+    SELECT user_id INTO v_owner_id FROM public.questions WHERE id = p_target_id FOR UPDATE;
+  ELSIF p_target_type = 'answer' THEN
+    SELECT user_id INTO v_owner_id FROM public.answers WHERE id = p_target_id FOR UPDATE;
+  ELSE
+    RAISE EXCEPTION 'Invalid post type: %', p_target_type USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The % you are editing no longer exists', p_target_type USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT public.can_edit_post(v_user_id, v_owner_id) THEN
+    RAISE EXCEPTION 'You do not have enough reputation to edit other people''s posts' USING ERRCODE = '42501';
+  END IF;
+
+  IF btrim(COALESCE(p_body, '')) = '' THEN
+    RAISE EXCEPTION 'The % body cannot be empty', p_target_type USING ERRCODE = '22023';
+  END IF;
+
+  IF char_length(p_summary) > 300 THEN
+    RAISE EXCEPTION 'Edit summaries can be at most 300 characters' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('stackit.edit_summary', COALESCE(btrim(p_summary), ''), true);
+
+  IF p_target_type = 'question' THEN
+    IF btrim(COALESCE(p_title, '')) = '' THEN
+      RAISE EXCEPTION 'The question title cannot be empty' USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE public.questions
+    SET title = btrim(p_title), description = p_body, tags = NULLIF(p_tags, '{}')
+    WHERE id = p_target_id;
+  ELSE
+    UPDATE public.answers SET content = p_body WHERE id = p_target_id;
+  END IF;
+
+  PERFORM set_config('stackit.edit_summary', '', true);
+
+  SELECT MAX(revision_number) INTO v_revision
+  FROM public.post_revisions
+  WHERE target_type = p_target_type AND target_id = p_target_id;
+
+  RETURN v_revision;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Restore an earlier revision as a new revision. Only the post's author or a
+-- moderator may roll back. Returns the new revision number.
+CREATE OR REPLACE FUNCTION public.rollback_post(p_revision_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_revision public.post_revisions%ROWTYPE;
+  v_owner_id UUID;
+  v_latest INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to roll back posts' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_revision FROM public.post_revisions WHERE id = p_revision_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That revision no longer exists' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_revision.target_type = 'question' THEN
+    SELECT user_id INTO v_owner_id FROM public.questions WHERE id = v_revision.target_id FOR UPDATE;
+  ELSE
+    SELECT user_id INTO v_owner_id FROM public.answers WHERE id = v_revision.target_id FOR UPDATE;
+  END IF;
+
+  IF v_user_id IS DISTINCT FROM v_owner_id AND NOT public.has_privilege(v_user_id, 'moderator_tools') THEN
+    RAISE EXCEPTION 'Only the author or a moderator can roll back this post' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT MAX(revision_number) INTO v_latest
+  FROM public.post_revisions
+  WHERE target_type = v_revision.target_type AND target_id = v_revision.target_id;
+
+  IF v_revision.revision_number = v_latest THEN
+    RAISE EXCEPTION 'Revision % is already the current version', v_revision.revision_number USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('stackit.edit_summary', format('Rolled back to revision %s', v_revision.revision_number), true);
+
+  IF v_revision.target_type = 'question' THEN
+    UPDATE public.questions
+    SET title = v_revision.title, description = v_revision.body, tags = v_revision.tags
+    WHERE id = v_revision.target_id;
+  ELSE
+    UPDATE public.answers SET content = v_revision.body WHERE id = v_revision.target_id;
+  END IF;
+
+  PERFORM set_config('stackit.edit_summary', '', true);
+
+  SELECT MAX(revision_number) INTO v_latest
+  FROM public.post_revisions
+  WHERE target_type = v_revision.target_type AND target_id = v_revision.target_id;
+
+  RETURN v_latest;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
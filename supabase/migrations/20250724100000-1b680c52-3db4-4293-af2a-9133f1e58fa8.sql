@@ -0,0 +1,324 @@
+-- Create suggested edits: changes proposed by users who can't edit a post
+-- directly, held until the post's owner or a reviewer approves them
+CREATE TABLE public.suggested_edits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  target_type TEXT NOT NULL CHECK (target_type IN ('question', 'answer')),
+  target_id UUID NOT NULL,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  base_revision INTEGER NOT NULL,
+  title TEXT,
+  body TEXT NOT NULL,
+  tags TEXT[],
+  summary TEXT NOT NULL CHECK (char_length(summary) BETWEEN 1 AND 300),
+  suggested_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'improved', 'rejected')),
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  reject_reason TEXT CHECK (char_length(reject_reason) <= 300),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- A post has at most one suggestion waiting for review
+CREATE UNIQUE INDEX suggested_edits_one_pending_idx ON public.suggested_edits(target_type, target_id) WHERE status = 'pending';
+CREATE INDEX suggested_edits_status_idx ON public.suggested_edits(status, created_at);
+
+ALTER TABLE public.suggested_edits ENABLE ROW LEVEL SECURITY;
+
+-- Suggestions are public; rows are only written through the functions below
+CREATE POLICY "Anyone can view suggested edits" ON public.suggested_edits FOR SELECT USING (true);
+
+CREATE OR REPLACE FUNCTION public.delete_answer_suggested_edits()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.suggested_edits WHERE target_type = 'answer' AND target_id = OLD.id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_answer_deleted_delete_suggested_edits
+  AFTER DELETE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.delete_answer_suggested_edits();
+
+-- Revisions from an approved suggestion are credited to the person who
+-- suggested it, passed in stackit.revision_editor
+CREATE OR REPLACE FUNCTION public.record_post_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_target_type TEXT := CASE WHEN TG_TABLE_NAME = 'questions' THEN 'question' ELSE 'answer' END;
+  v_question_id UUID;
+  v_title TEXT;
+  v_body TEXT;
+  v_tags TEXT[];
+BEGIN
+  IF v_target_type = 'question' THEN
+    IF TG_OP = 'UPDATE'
+      AND NEW.title IS NOT DISTINCT FROM OLD.title
+      AND NEW.description IS NOT DISTINCT FROM OLD.description
+      AND NEW.tags IS NOT DISTINCT FROM OLD.tags
+    THEN
+      RETURN NULL;
+    END IF;
+    v_question_id := NEW.id;
+    v_title := NEW.title;
+    v_body := NEW.description;
+    v_tags := NEW.tags;
+  ELSE
+    IF TG_OP = 'UPDATE' AND NEW.content IS NOT DISTINCT FROM OLD.content THEN
+      RETURN NULL;
+    END IF;
+    v_question_id := NEW.question_id;
+    v_body := NEW.content;
+  END IF;
+
+  INSERT INTO public.post_revisions (target_type, target_id, question_id, revision_number, title, body, tags, editor_id, summary)
+  VALUES (
+    v_target_type,
+    NEW.id,
+    v_question_id,
+    (
+      SELECT COALESCE(MAX(revision_number), 0) + 1 FROM public.post_revisions
+      WHERE target_type = v_target_type AND target_id = NEW.id
+    ),
+    v_title,
+    v_body,
+    v_tags,
+    COALESCE(NULLIF(current_setting('stackit.revision_editor', true), '')::UUID, auth.uid(), NEW.user_id),
+    CASE WHEN TG_OP = 'UPDATE' THEN NULLIF(current_setting('stackit.edit_summary', true), '') END
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Propose an edit to someone else's post. Users who can edit the post
+-- directly should use edit_post() instead. Returns the suggestion's id.
+CREATE OR REPLACE FUNCTION public.suggest_edit(
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_body TEXT,
+  p_summary TEXT,
+  p_title TEXT DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_owner_id UUID;
+  v_question_id UUID;
+  v_unchanged BOOLEAN;
+  v_revision INTEGER;
+  v_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to suggest edits' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_target_type = 'question' THEN
+    SELECT user_id, id, title = btrim(p_title) AND description = p_body AND tags IS NOT DISTINCT FROM NULLIF(p_tags, '{}')
+    INTO v_owner_id, v_question_id, v_unchanged
+    FROM public.questions WHERE id = p_target_id;
+  ELSIF p_target_type = 'answer' THEN
+    SELECT user_id, question_id, content = p_body
+    INTO v_owner_id, v_question_id, v_unchanged
+    FROM public.answers WHERE id = p_target_id;
+  ELSE
+    RAISE EXCEPTION 'Invalid post type: %', p_target_type USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The % you are editing no longer exists', p_target_type USING ERRCODE = 'P0002';
+  END IF;
+
+  IF public.can_edit_post(v_user_id, v_owner_id) THEN
+    RAISE EXCEPTION 'You can edit this % directly', p_target_type USING ERRCODE = '22023';
+  END IF;
+
+  IF btrim(COALESCE(p_body, '')) = '' OR (p_target_type = 'question' AND btrim(COALESCE(p_title, '')) = '') THEN
+    RAISE EXCEPTION 'The suggested % cannot be empty', p_target_type USING ERRCODE = '22023';
+  END IF;
+
+  IF btrim(COALESCE(p_summary, '')) = '' THEN
+    RAISE EXCEPTION 'Please explain what your edit changes' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_unchanged THEN
+    RAISE EXCEPTION 'Your edit does not change anything' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.suggested_edits
+    WHERE target_type = p_target_type AND target_id = p_target_id AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'This % already has an edit waiting for review', p_target_type USING ERRCODE = '23505';
+  END IF;
+
+  SELECT COALESCE(MAX(revision_number), 0) INTO v_revision
+  FROM public.post_revisions
+  WHERE target_type = p_target_type AND target_id = p_target_id;
+
+  INSERT INTO public.suggested_edits (target_type, target_id, question_id, base_revision, title, body, tags, summary, suggested_by)
+  VALUES (
+    p_target_type,
+    p_target_id,
+    v_question_id,
+    v_revision,
+    CASE WHEN p_target_type = 'question' THEN btrim(p_title) END,
+    p_body,
+    CASE WHEN p_target_type = 'question' THEN NULLIF(p_tags, '{}') END,
+    btrim(p_summary),
+    v_user_id
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Pending suggestions the current user may review, next to the post's
+-- current content: all of them for reviewers, otherwise those on their own posts
+CREATE OR REPLACE FUNCTION public.pending_suggested_edits()
+RETURNS TABLE (
+  id UUID,
+  target_type TEXT,
+  target_id UUID,
+  question_id UUID,
+  question_title TEXT,
+  owner_id UUID,
+  base_revision INTEGER,
+  current_revision INTEGER,
+  title TEXT,
+  body TEXT,
+  tags TEXT[],
+  summary TEXT,
+  suggested_by UUID,
+  suggester_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  current_title TEXT,
+  current_body TEXT,
+  current_tags TEXT[]
+) AS $$
+  SELECT
+    s.id,
+    s.target_type,
+    s.target_id,
+    s.question_id,
+    q.title AS question_title,
+    COALESCE(a.user_id, q.user_id) AS owner_id,
+    s.base_revision,
+    (
+      SELECT MAX(r.revision_number) FROM public.post_revisions r
+      WHERE r.target_type = s.target_type AND r.target_id = s.target_id
+    ) AS current_revision,
+    s.title,
+    s.body,
+    s.tags,
+    s.summary,
+    s.suggested_by,
+    p.username AS suggester_name,
+    s.created_at,
+    CASE WHEN s.target_type = 'question' THEN q.title END AS current_title,
+    COALESCE(a.content, q.description) AS current_body,
+    CASE WHEN s.target_type = 'question' THEN q.tags END AS current_tags
+  FROM public.suggested_edits s
+  JOIN public.questions q ON q.id = s.question_id
+  LEFT JOIN public.answers a ON s.target_type = 'answer' AND a.id = s.target_id
+  LEFT JOIN public.profiles p ON p.id = s.suggested_by
+  WHERE s.status = 'pending'
+    AND s.suggested_by <> auth.uid()
+    AND (
+      public.has_privilege(auth.uid(), 'review_queue')
+      OR COALESCE(a.user_id, q.user_id) = auth.uid()
+    )
+  ORDER BY s.created_at;
+$$ LANGUAGE sql STABLE;
+
+-- Approve, improve or reject a suggested edit. Approving applies it as a new
+-- revision credited to the suggester; improving applies the reviewer's
+-- version of it instead. Returns the suggestion's new status.
+CREATE OR REPLACE FUNCTION public.review_suggested_edit(
+  p_edit_id UUID,
+  p_action TEXT,
+  p_reason TEXT DEFAULT NULL,
+  p_body TEXT DEFAULT NULL,
+  p_title TEXT DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_edit public.suggested_edits%ROWTYPE;
+  v_owner_id UUID;
+  v_status TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to review edits' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_edit FROM public.suggested_edits WHERE id = p_edit_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That suggested edit no longer exists' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_edit.status <> 'pending' THEN
+    RAISE EXCEPTION 'This edit has already been reviewed' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_edit.target_type = 'question' THEN
+    SELECT user_id INTO v_owner_id FROM public.questions WHERE id = v_edit.target_id FOR UPDATE;
+  ELSE
+    SELECT user_id INTO v_owner_id FROM public.answers WHERE id = v_edit.target_id FOR UPDATE;
+  END IF;
+
+  IF v_edit.suggested_by = v_user_id THEN
+    RAISE EXCEPTION 'You cannot review your own suggested edit' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_owner_id IS DISTINCT FROM v_user_id AND NOT public.has_privilege(v_user_id, 'review_queue') THEN
+    RAISE EXCEPTION 'You do not have enough reputation to review edits' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_action = 'reject' THEN
+    IF btrim(COALESCE(p_reason, '')) = '' THEN
+      RAISE EXCEPTION 'Please give a reason for rejecting this edit' USING ERRCODE = '22023';
+    END IF;
+    v_status := 'rejected';
+  ELSIF p_action IN ('approve', 'improve') THEN
+    IF p_action = 'improve' THEN
+      IF btrim(COALESCE(p_body, '')) = '' OR (v_edit.target_type = 'question' AND btrim(COALESCE(p_title, '')) = '') THEN
+        RAISE EXCEPTION 'The improved % cannot be empty', v_edit.target_type USING ERRCODE = '22023';
+      END IF;
+      v_edit.body := p_body;
+      v_edit.title := btrim(p_title);
+      v_edit.tags := NULLIF(p_tags, '{}');
+      v_status := 'improved';
+    ELSE
+      v_status := 'approved';
+      PERFORM set_config('stackit.revision_editor', v_edit.suggested_by::TEXT, true);
+    END IF;
+
+    PERFORM set_config('stackit.edit_summary', v_edit.summary, true);
+
+    IF v_edit.target_type = 'question' THEN
+      UPDATE public.questions
+      SET title = v_edit.title, description = v_edit.body, tags = v_edit.tags
+      WHERE id = v_edit.target_id;
+    ELSE
+      UPDATE public.answers SET content = v_edit.body WHERE id = v_edit.target_id;
+    END IF;
+
+    PERFORM set_config('stackit.edit_summary', '', true);
+    PERFORM set_config('stackit.revision_editor', '', true);
+  ELSE
+    RAISE EXCEPTION 'Invalid review action: %', p_action USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.suggested_edits
+  SET status = v_status,
+      reviewed_by = v_user_id,
+      reviewed_at = now(),
+      reject_reason = CASE WHEN v_status = 'rejected' THEN btrim(p_reason) END
+  WHERE id = p_edit_id;
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
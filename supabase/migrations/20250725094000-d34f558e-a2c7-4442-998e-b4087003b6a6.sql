@@ -0,0 +1,232 @@
+-- Closed questions: why they were closed and, for duplicates, the question
+-- that already answers them
+ALTER TABLE public.questions
+  ADD COLUMN closed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN close_reason TEXT CHECK (close_reason IN ('duplicate', 'unclear', 'off_topic', 'too_broad')),
+  ADD COLUMN duplicate_of UUID REFERENCES public.questions(id) ON DELETE SET NULL;
+
+-- Create close votes: votes to close an open question or reopen a closed one
+CREATE TABLE public.close_votes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  vote_type TEXT NOT NULL CHECK (vote_type IN ('close', 'reopen')),
+  reason TEXT CHECK (reason IN ('duplicate', 'unclear', 'off_topic', 'too_broad')),
+  duplicate_of UUID REFERENCES public.questions(id) ON DELETE CASCADE,
+  -- Votes stop counting once the question is closed or reopened
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((vote_type = 'close') = (reason IS NOT NULL)),
+  CHECK ((reason = 'duplicate') = (duplicate_of IS NOT NULL))
+);
+
+CREATE UNIQUE INDEX close_votes_one_active_idx ON public.close_votes(question_id, user_id, vote_type) WHERE active;
+
+ALTER TABLE public.close_votes ENABLE ROW LEVEL SECURITY;
+
+-- Close votes are public; rows are only written through the functions below
+CREATE POLICY "Anyone can view close votes" ON public.close_votes FOR SELECT USING (true);
+
+INSERT INTO public.site_settings (key, value, description) VALUES
+('moderation.close_votes_needed', 3, 'Votes needed to close a question'),
+('moderation.reopen_votes_needed', 3, 'Votes needed to reopen a closed question');
+
+-- Closing and reopening only happen through the vote functions; pin the
+-- closure columns on direct inserts and updates
+CREATE OR REPLACE FUNCTION public.protect_question_closure()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.closed_at := NULL;
+    NEW.close_reason := NULL;
+    NEW.duplicate_of := NULL;
+  ELSIF current_setting('stackit.syncing_closure', true) IS DISTINCT FROM 'on' THEN
+    NEW.closed_at := OLD.closed_at;
+    NEW.close_reason := OLD.close_reason;
+    NEW.duplicate_of := OLD.duplicate_of;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_question_closure
+  BEFORE INSERT OR UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_question_closure();
+
+-- Closed questions don't take new answers
+CREATE OR REPLACE FUNCTION public.prevent_answer_on_closed_question()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.questions WHERE id = NEW.question_id AND closed_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'This question is closed and no longer accepts answers' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER prevent_answer_on_closed_question
+  BEFORE INSERT ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_answer_on_closed_question();
+
+-- Vote to close a question. It closes once enough votes are in, with the most
+-- common reason; a moderator's vote closes it straight away. Returns whether
+-- the question is now closed.
+CREATE OR REPLACE FUNCTION public.vote_to_close(p_question_id UUID, p_reason TEXT, p_duplicate_of UUID DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_closed_at TIMESTAMP WITH TIME ZONE;
+  v_binding BOOLEAN;
+  v_votes INTEGER;
+  v_reason TEXT;
+  v_duplicate_of UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to vote to close' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT closed_at INTO v_closed_at FROM public.questions WHERE id = p_question_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That question no longer exists' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This question is already closed' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT public.has_privilege(v_user_id, 'close_vote') THEN
+    RAISE EXCEPTION 'You do not have enough reputation to vote to close' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_reason IS NULL OR p_reason NOT IN ('duplicate', 'unclear', 'off_topic', 'too_broad') THEN
+    RAISE EXCEPTION 'Invalid close reason: %', p_reason USING ERRCODE = '22023';
+  END IF;
+
+  IF p_reason = 'duplicate' THEN
+    IF p_duplicate_of IS NULL OR p_duplicate_of = p_question_id THEN
+      RAISE EXCEPTION 'Choose the question this one duplicates' USING ERRCODE = '22023';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.questions WHERE id = p_duplicate_of) THEN
+      RAISE EXCEPTION 'The duplicate question no longer exists' USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.close_votes
+    WHERE question_id = p_question_id AND user_id = v_user_id AND vote_type = 'close' AND active
+  ) THEN
+    RAISE EXCEPTION 'You have already voted to close this question' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.close_votes (question_id, user_id, vote_type, reason, duplicate_of)
+  VALUES (
+    p_question_id,
+    v_user_id,
+    'close',
+    p_reason,
+    CASE WHEN p_reason = 'duplicate' THEN p_duplicate_of END
+  );
+
+  v_binding := public.has_privilege(v_user_id, 'moderator_tools');
+
+  SELECT COUNT(*) INTO v_votes FROM public.close_votes
+  WHERE question_id = p_question_id AND vote_type = 'close' AND active;
+
+  IF NOT v_binding AND v_votes < GREATEST(public.setting('moderation.close_votes_needed'), 1) THEN
+    RETURN false;
+  END IF;
+
+  IF v_binding THEN
+    v_reason := p_reason;
+  ELSE
+    SELECT reason INTO v_reason FROM public.close_votes
+    WHERE question_id = p_question_id AND vote_type = 'close' AND active
+    GROUP BY reason
+    ORDER BY COUNT(*) DESC, MIN(created_at)
+    LIMIT 1;
+  END IF;
+
+  IF v_reason = 'duplicate' THEN
+    IF v_binding THEN
+      v_duplicate_of := p_duplicate_of;
+    ELSE
+      SELECT duplicate_of INTO v_duplicate_of FROM public.close_votes
+      WHERE question_id = p_question_id AND vote_type = 'close' AND active AND reason = 'duplicate'
+      GROUP BY duplicate_of
+      ORDER BY COUNT(*) DESC, MIN(created_at)
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  PERFORM set_config('stackit.syncing_closure', 'on', true);
+
+  UPDATE public.questions
+  SET closed_at = now(), close_reason = v_reason, duplicate_of = v_duplicate_of
+  WHERE id = p_question_id;
+
+  PERFORM set_config('stackit.syncing_closure', 'off', true);
+
+  UPDATE public.close_votes SET active = false WHERE question_id = p_question_id AND active;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Vote to reopen a closed question, with the same threshold rules as closing.
+-- Returns whether the question is open again.
+CREATE OR REPLACE FUNCTION public.vote_to_reopen(p_question_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_closed_at TIMESTAMP WITH TIME ZONE;
+  v_votes INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to vote to reopen' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT closed_at INTO v_closed_at FROM public.questions WHERE id = p_question_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That question no longer exists' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_closed_at IS NULL THEN
+    RAISE EXCEPTION 'This question is not closed' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT public.has_privilege(v_user_id, 'close_vote') THEN
+    RAISE EXCEPTION 'You do not have enough reputation to vote to reopen' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.close_votes
+    WHERE question_id = p_question_id AND user_id = v_user_id AND vote_type = 'reopen' AND active
+  ) THEN
+    RAISE EXCEPTION 'You have already voted to reopen this question' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.close_votes (question_id, user_id, vote_type)
+  VALUES (p_question_id, v_user_id, 'reopen');
+
+  SELECT COUNT(*) INTO v_votes FROM public.close_votes
+  WHERE question_id = p_question_id AND vote_type = 'reopen' AND active;
+
+  IF NOT public.has_privilege(v_user_id, 'moderator_tools')
+    AND v_votes < GREATEST(public.setting('moderation.reopen_votes_needed'), 1)
+  THEN
+    RETURN false;
+  END IF;
+
+  PERFORM set_config('stackit.syncing_closure', 'on', true);
+
+  UPDATE public.questions
+  SET closed_at = NULL, close_reason = NULL, duplicate_of = NULL
+  WHERE id = p_question_id;
+
+  PERFORM set_config('stackit.syncing_closure', 'off', true);
+
+  UPDATE public.close_votes SET active = false WHERE question_id = p_question_id AND active;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,363 @@
+-- Moderators: a role on profiles, assigned from the database
+ALTER TABLE public.profiles ADD COLUMN role TEXT NOT NULL DEFAULT 'user' CHECK (role IN ('user', 'moderator'));
+
+-- Users can update their own profile, but never their role. Role changes come
+-- from the dashboard or the service role, where there is no auth.uid().
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    NEW.role := OLD.role;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_profile_role
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_role();
+
+CREATE OR REPLACE FUNCTION public.is_moderator(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_user_id AND role = 'moderator');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Locked questions: no new answers, comments, edits or votes anywhere in the thread
+ALTER TABLE public.questions ADD COLUMN locked_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.protect_question_lock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.locked_at := NULL;
+  ELSIF current_setting('stackit.syncing_lock', true) IS DISTINCT FROM 'on' THEN
+    NEW.locked_at := OLD.locked_at;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_question_lock
+  BEFORE INSERT OR UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_question_lock();
+
+CREATE OR REPLACE FUNCTION public.prevent_locked_thread_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_question_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'questions' THEN
+    -- Votes, views, closing and locking still update the row
+    IF NEW.title IS NOT DISTINCT FROM OLD.title
+      AND NEW.description IS NOT DISTINCT FROM OLD.description
+      AND NEW.tags IS NOT DISTINCT FROM OLD.tags
+    THEN
+      RETURN NEW;
+    END IF;
+    v_question_id := NEW.id;
+  ELSIF TG_TABLE_NAME IN ('answers', 'comments') THEN
+    IF TG_OP = 'UPDATE' AND NEW.content IS NOT DISTINCT FROM OLD.content THEN
+      RETURN NEW;
+    END IF;
+    v_question_id := NEW.question_id;
+  ELSIF NEW.target_type = 'question' THEN
+    v_question_id := NEW.target_id;
+  ELSE
+    SELECT question_id INTO v_question_id FROM public.answers WHERE id = NEW.target_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.questions WHERE id = v_question_id AND locked_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'This question is locked by a moderator' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER prevent_locked_question_changes
+  BEFORE UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_locked_thread_changes();
+
+CREATE TRIGGER prevent_locked_answer_changes
+  BEFORE INSERT OR UPDATE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_locked_thread_changes();
+
+CREATE TRIGGER prevent_locked_comment_changes
+  BEFORE INSERT OR UPDATE ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_locked_thread_changes();
+
+CREATE TRIGGER prevent_locked_votes
+  BEFORE INSERT OR UPDATE ON public.votes
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_locked_thread_changes();
+
+-- Create flags: reports of posts and comments that need a moderator's attention
+CREATE TABLE public.flags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  target_type TEXT NOT NULL CHECK (target_type IN ('question', 'answer', 'comment')),
+  target_id UUID NOT NULL,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'rude', 'low_quality', 'other')),
+  details TEXT CHECK (char_length(details) <= 500),
+  flagged_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dismissed', 'actioned')),
+  handled_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  handled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (reason <> 'other' OR btrim(COALESCE(details, '')) <> '')
+);
+
+CREATE UNIQUE INDEX flags_one_pending_idx ON public.flags(target_type, target_id, flagged_by) WHERE status = 'pending';
+CREATE INDEX flags_pending_idx ON public.flags(target_type, target_id) WHERE status = 'pending';
+
+-- Create moderation log: every moderator action, kept after the post is gone
+CREATE TABLE public.moderation_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  moderator_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('dismiss', 'delete', 'lock', 'unlock', 'warn')),
+  target_type TEXT NOT NULL CHECK (target_type IN ('question', 'answer', 'comment')),
+  target_id UUID NOT NULL,
+  -- Not a foreign key, so entries survive the question being deleted
+  question_id UUID,
+  target_user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  details TEXT,
+  -- The flagged content at the time of the action
+  snapshot JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX moderation_log_created_at_idx ON public.moderation_log(created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.flags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.moderation_log ENABLE ROW LEVEL SECURITY;
+
+-- Flags and the log are only written through the functions below
+CREATE POLICY "Users can view their own flags" ON public.flags FOR SELECT TO authenticated USING (auth.uid() = flagged_by);
+CREATE POLICY "Moderators can view all flags" ON public.flags FOR SELECT TO authenticated USING (public.is_moderator(auth.uid()));
+CREATE POLICY "Moderators can view the moderation log" ON public.moderation_log FOR SELECT TO authenticated USING (public.is_moderator(auth.uid()));
+
+-- Moderators can warn authors through a notification
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('answer', 'accepted', 'vote_milestone', 'mention', 'comment', 'moderator_warning'));
+
+-- Author and question of a flaggable post, and a copy of its content
+CREATE OR REPLACE FUNCTION public.flag_target(
+  p_target_type TEXT,
+  p_target_id UUID,
+  OUT question_id UUID,
+  OUT author_id UUID,
+  OUT snapshot JSONB
+) AS $$
+BEGIN
+  IF p_target_type = 'question' THEN
+    SELECT q.id, q.user_id, jsonb_build_object('title', q.title, 'body', q.description, 'tags', q.tags)
+    INTO question_id, author_id, snapshot
+    FROM public.questions q WHERE q.id = p_target_id;
+  ELSIF p_target_type = 'answer' THEN
+    SELECT a.question_id, a.user_id, jsonb_build_object('body', a.content)
+    INTO question_id, author_id, snapshot
+    FROM public.answers a WHERE a.id = p_target_id;
+  ELSIF p_target_type = 'comment' THEN
+    SELECT c.question_id, c.user_id, jsonb_build_object('body', c.content)
+    INTO question_id, author_id, snapshot
+    FROM public.comments c WHERE c.id = p_target_id;
+  ELSE
+    RAISE EXCEPTION 'Invalid flag target: %', p_target_type USING ERRCODE = '22023';
+  END IF;
+
+  IF question_id IS NULL THEN
+    RAISE EXCEPTION 'That % no longer exists', p_target_type USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.flag_target(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Flag a question, answer or comment for moderator attention
+CREATE OR REPLACE FUNCTION public.flag_post(p_target_type TEXT, p_target_id UUID, p_reason TEXT, p_details TEXT DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_target RECORD;
+  v_flag_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to flag posts' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_target FROM public.flag_target(p_target_type, p_target_id);
+
+  IF v_target.author_id = v_user_id THEN
+    RAISE EXCEPTION 'You cannot flag your own %', p_target_type USING ERRCODE = '42501';
+  END IF;
+
+  IF p_reason IS NULL OR p_reason NOT IN ('spam', 'rude', 'low_quality', 'other') THEN
+    RAISE EXCEPTION 'Invalid flag reason: %', p_reason USING ERRCODE = '22023';
+  END IF;
+
+  IF p_reason = 'other' AND btrim(COALESCE(p_details, '')) = '' THEN
+    RAISE EXCEPTION 'Please describe the problem' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.flags
+    WHERE target_type = p_target_type AND target_id = p_target_id AND flagged_by = v_user_id AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'You have already flagged this %', p_target_type USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.flags (target_type, target_id, question_id, reason, details, flagged_by)
+  VALUES (p_target_type, p_target_id, v_target.question_id, p_reason, NULLIF(btrim(p_details), ''), v_user_id)
+  RETURNING id INTO v_flag_id;
+
+  RETURN v_flag_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Flagged posts waiting for a moderator, one row per post with its flags
+-- rolled up, most flagged first. Empty for everyone but moderators.
+CREATE OR REPLACE FUNCTION public.pending_flags()
+RETURNS TABLE (
+  target_type TEXT,
+  target_id UUID,
+  question_id UUID,
+  question_title TEXT,
+  author_id UUID,
+  author_name TEXT,
+  content TEXT,
+  locked BOOLEAN,
+  flag_count INTEGER,
+  reasons TEXT[],
+  details TEXT[],
+  first_flagged_at TIMESTAMP WITH TIME ZONE,
+  last_flagged_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT
+    f.target_type,
+    f.target_id,
+    f.question_id,
+    q.title AS question_title,
+    COALESCE(c.user_id, a.user_id, q.user_id) AS author_id,
+    COALESCE(c.author_name, a.author_name, q.author_name) AS author_name,
+    COALESCE(c.content, a.content, q.description) AS content,
+    q.locked_at IS NOT NULL AS locked,
+    COUNT(*)::INTEGER AS flag_count,
+    array_agg(DISTINCT f.reason) AS reasons,
+    array_remove(array_agg(f.details ORDER BY f.created_at), NULL) AS details,
+    MIN(f.created_at) AS first_flagged_at,
+    MAX(f.created_at) AS last_flagged_at
+  FROM public.flags f
+  JOIN public.questions q ON q.id = f.question_id
+  LEFT JOIN public.answers a ON f.target_type = 'answer' AND a.id = f.target_id
+  LEFT JOIN public.comments c ON f.target_type = 'comment' AND c.id = f.target_id
+  WHERE f.status = 'pending'
+    AND public.is_moderator(auth.uid())
+    -- Skip flags on answers and comments their authors have since deleted
+    AND (f.target_type = 'question' OR a.id IS NOT NULL OR c.id IS NOT NULL)
+  GROUP BY
+    f.target_type, f.target_id, f.question_id, q.title, q.user_id, q.author_name, q.description, q.locked_at,
+    a.user_id, a.author_name, a.content, c.user_id, c.author_name, c.content
+  ORDER BY COUNT(*) DESC, MIN(f.created_at);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Handle the pending flags on a post: dismiss them, delete the post, lock its
+-- question or warn its author. Every action is written to moderation_log.
+CREATE OR REPLACE FUNCTION public.moderate_flagged_post(
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_action TEXT,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_target RECORD;
+BEGIN
+  IF v_user_id IS NULL OR NOT public.is_moderator(v_user_id) THEN
+    RAISE EXCEPTION 'Only moderators can handle flags' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_action IS NULL OR p_action NOT IN ('dismiss', 'delete', 'lock', 'warn') THEN
+    RAISE EXCEPTION 'Invalid moderation action: %', p_action USING ERRCODE = '22023';
+  END IF;
+
+  IF p_action = 'warn' AND btrim(COALESCE(p_message, '')) = '' THEN
+    RAISE EXCEPTION 'Please write a message for the author' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_target FROM public.flag_target(p_target_type, p_target_id);
+
+  UPDATE public.flags
+  SET status = CASE WHEN p_action = 'dismiss' THEN 'dismissed' ELSE 'actioned' END,
+      handled_by = v_user_id,
+      handled_at = now()
+  WHERE target_type = p_target_type AND target_id = p_target_id AND status = 'pending';
+
+  INSERT INTO public.moderation_log (moderator_id, action, target_type, target_id, question_id, target_user_id, details, snapshot)
+  VALUES (
+    v_user_id,
+    p_action,
+    p_target_type,
+    p_target_id,
+    v_target.question_id,
+    v_target.author_id,
+    NULLIF(btrim(p_message), ''),
+    v_target.snapshot
+  );
+
+  IF p_action = 'delete' THEN
+    IF p_target_type = 'question' THEN
+      DELETE FROM public.questions WHERE id = p_target_id;
+    ELSIF p_target_type = 'answer' THEN
+      DELETE FROM public.answers WHERE id = p_target_id;
+    ELSE
+      DELETE FROM public.comments WHERE id = p_target_id;
+    END IF;
+  ELSIF p_action = 'lock' THEN
+    PERFORM set_config('stackit.syncing_lock', 'on', true);
+    UPDATE public.questions SET locked_at = now() WHERE id = v_target.question_id AND locked_at IS NULL;
+    PERFORM set_config('stackit.syncing_lock', 'off', true);
+  ELSIF p_action = 'warn' THEN
+    PERFORM public.create_notification(
+      v_target.author_id,
+      v_user_id,
+      'moderator_warning',
+      v_target.question_id,
+      CASE WHEN p_target_type = 'answer' THEN p_target_id END,
+      CASE WHEN p_target_type = 'comment' THEN p_target_id END,
+      jsonb_build_object('message', btrim(p_message))
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Lock or unlock a question from the question page
+CREATE OR REPLACE FUNCTION public.set_question_lock(p_question_id UUID, p_locked BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_target RECORD;
+BEGIN
+  IF v_user_id IS NULL OR NOT public.is_moderator(v_user_id) THEN
+    RAISE EXCEPTION 'Only moderators can lock questions' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_target FROM public.flag_target('question', p_question_id);
+
+  PERFORM set_config('stackit.syncing_lock', 'on', true);
+  UPDATE public.questions
+  SET locked_at = CASE WHEN p_locked THEN COALESCE(locked_at, now()) END
+  WHERE id = p_question_id;
+  PERFORM set_config('stackit.syncing_lock', 'off', true);
+
+  INSERT INTO public.moderation_log (moderator_id, action, target_type, target_id, question_id, target_user_id)
+  VALUES (
+    v_user_id,
+    CASE WHEN p_locked THEN 'lock' ELSE 'unlock' END,
+    'question',
+    p_question_id,
+    p_question_id,
+    v_target.author_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,107 @@
+-- Staff roles. Every signed-up account is a plain user; these are granted on
+-- top, each including the ones before it: trusted < moderator < admin.
+-- The first admin has to be added from the dashboard:
+--   INSERT INTO public.user_roles (user_id, role) VALUES ('<profile id>', 'admin');
+CREATE TYPE public.app_role AS ENUM ('trusted', 'moderator', 'admin');
+
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL,
+  granted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Whether a user holds a role, or a higher one
+CREATE OR REPLACE FUNCTION public.has_role(p_user_id UUID, p_role public.app_role)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = p_user_id AND role >= p_role);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Staff roles are public, like the moderator badge on other Q&A sites. Rows
+-- are only written through grant_role() and revoke_role().
+CREATE POLICY "Anyone can view roles" ON public.user_roles FOR SELECT USING (true);
+
+-- Move moderators over from profiles.role
+INSERT INTO public.user_roles (user_id, role)
+SELECT id, 'moderator' FROM public.profiles WHERE role = 'moderator';
+
+DROP TRIGGER protect_profile_role ON public.profiles;
+DROP FUNCTION public.protect_profile_role();
+ALTER TABLE public.profiles DROP COLUMN role;
+
+-- The moderation functions keep calling is_moderator()
+CREATE OR REPLACE FUNCTION public.is_moderator(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT public.has_role(p_user_id, 'moderator');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY "Moderators can view all flags" ON public.flags;
+DROP POLICY "Moderators can view the moderation log" ON public.moderation_log;
+CREATE POLICY "Moderators can view all flags" ON public.flags FOR SELECT TO authenticated USING (public.has_role(auth.uid(), 'moderator'));
+CREATE POLICY "Moderators can view the moderation log" ON public.moderation_log FOR SELECT TO authenticated USING (public.has_role(auth.uid(), 'moderator'));
+
+-- Staff can clean up any post or comment
+CREATE POLICY "Moderators can delete any question" ON public.questions FOR DELETE TO authenticated USING (public.has_role(auth.uid(), 'moderator'));
+CREATE POLICY "Moderators can delete any answer" ON public.answers FOR DELETE TO authenticated USING (public.has_role(auth.uid(), 'moderator'));
+CREATE POLICY "Moderators can delete any comment" ON public.comments FOR DELETE TO authenticated USING (public.has_role(auth.uid(), 'moderator'));
+
+-- Admins tune the site
+CREATE POLICY "Admins can update site settings" ON public.site_settings FOR UPDATE TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can update privileges" ON public.privileges FOR UPDATE TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+-- Trusted users have every privilege short of the moderator tools, whatever
+-- their reputation; moderators and admins have all of them
+CREATE OR REPLACE FUNCTION public.has_privilege(p_user_id UUID, p_key TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT public.has_role(p_user_id, 'moderator')
+    OR (p_key <> 'moderator_tools' AND public.has_role(p_user_id, 'trusted'))
+    OR EXISTS (
+      SELECT 1
+      FROM public.privileges pr
+      JOIN public.profiles p ON p.id = p_user_id
+      WHERE pr.key = p_key AND p.reputation >= pr.min_reputation
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Grant a role to a user. Admins only.
+CREATE OR REPLACE FUNCTION public.grant_role(p_user_id UUID, p_role public.app_role)
+RETURNS VOID AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+BEGIN
+  IF v_admin_id IS NULL OR NOT public.has_role(v_admin_id, 'admin') THEN
+    RAISE EXCEPTION 'Only admins can grant roles' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'That user no longer exists' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.user_roles (user_id, role, granted_by)
+  VALUES (p_user_id, p_role, v_admin_id)
+  ON CONFLICT (user_id, role) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Revoke a role from a user. Admins only, and they can't remove their own
+-- admin role so the site is never left without one by accident.
+CREATE OR REPLACE FUNCTION public.revoke_role(p_user_id UUID, p_role public.app_role)
+RETURNS VOID AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+BEGIN
+  IF v_admin_id IS NULL OR NOT public.has_role(v_admin_id, 'admin') THEN
+    RAISE EXCEPTION 'Only admins can revoke roles' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_user_id = v_admin_id AND p_role = 'admin' THEN
+    RAISE EXCEPTION 'You cannot revoke your own admin role' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.user_roles WHERE user_id = p_user_id AND role = p_role;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
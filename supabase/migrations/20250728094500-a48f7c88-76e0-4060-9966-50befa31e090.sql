@@ -0,0 +1,147 @@
+-- Tag names are case-insensitive: "React", " react" and "REACT" are all the
+-- tag "react". Inner whitespace becomes a hyphen, so "ruby on rails" is
+-- "ruby-on-rails".
+CREATE OR REPLACE FUNCTION public.normalize_tag(p_tag TEXT)
+RETURNS TEXT AS $$
+  SELECT regexp_replace(lower(btrim(p_tag)), '\s+', '-', 'g');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Normalize a list of tags, dropping blanks and duplicates but keeping the
+-- order they were given in. An empty list becomes NULL, like edit_post() stores it.
+CREATE OR REPLACE FUNCTION public.normalize_tags(p_tags TEXT[])
+RETURNS TEXT[] AS $$
+  SELECT NULLIF(ARRAY(
+    SELECT tag
+    FROM (
+      SELECT public.normalize_tag(t) AS tag, MIN(ord) AS ord
+      FROM unnest(p_tags) WITH ORDINALITY AS u(t, ord)
+      WHERE btrim(t) <> ''
+      GROUP BY 1
+    ) normalized
+    ORDER BY ord
+  ), '{}');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Create tags: one row per tag used on a question, with its description
+CREATE TABLE public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE CHECK (slug <> '' AND slug = public.normalize_tag(slug)),
+  -- Short summary shown on the tags page
+  excerpt TEXT CHECK (char_length(excerpt) <= 500),
+  -- Full usage guidance, in markdown
+  wiki TEXT,
+  question_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX tags_question_count_idx ON public.tags(question_count DESC);
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+
+-- Tags are public. Rows are created by the question triggers below; users who
+-- can edit posts can also edit the excerpt and wiki.
+CREATE POLICY "Anyone can view tags" ON public.tags FOR SELECT USING (true);
+CREATE POLICY "Privileged users can edit tags" ON public.tags FOR UPDATE TO authenticated USING (public.has_privilege(auth.uid(), 'edit_posts'));
+
+-- Slugs and counts are maintained by sync_tag_counts(); pin them on direct updates
+CREATE OR REPLACE FUNCTION public.protect_tag_counts()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('stackit.syncing_tags', true) IS DISTINCT FROM 'on' THEN
+    NEW.slug := OLD.slug;
+    NEW.question_count := OLD.question_count;
+    NEW.created_at := OLD.created_at;
+    NEW.updated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_tag_counts
+  BEFORE UPDATE ON public.tags
+  FOR EACH ROW EXECUTE FUNCTION public.protect_tag_counts();
+
+-- Questions always store normalized tags. This runs before the other BEFORE
+-- triggers on questions (they fire in name order), so the lock and revision
+-- checks compare normalized tags.
+CREATE OR REPLACE FUNCTION public.normalize_question_tags()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.tags := public.normalize_tags(NEW.tags);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER normalize_question_tags
+  BEFORE INSERT OR UPDATE OF tags ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.normalize_question_tags();
+
+-- Keep tags.question_count in step with the questions using each tag,
+-- creating tags the first time they're used
+CREATE OR REPLACE FUNCTION public.sync_tag_counts()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old_tags TEXT[] := '{}';
+  v_new_tags TEXT[] := '{}';
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    v_old_tags := COALESCE(OLD.tags, '{}');
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    v_new_tags := COALESCE(NEW.tags, '{}');
+  END IF;
+
+  IF v_old_tags = v_new_tags THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM set_config('stackit.syncing_tags', 'on', true);
+
+  INSERT INTO public.tags (slug)
+  SELECT unnest(v_new_tags)
+  ON CONFLICT (slug) DO NOTHING;
+
+  UPDATE public.tags SET question_count = question_count + 1
+  WHERE slug = ANY(v_new_tags) AND NOT slug = ANY(v_old_tags);
+
+  UPDATE public.tags SET question_count = GREATEST(question_count - 1, 0)
+  WHERE slug = ANY(v_old_tags) AND NOT slug = ANY(v_new_tags);
+
+  PERFORM set_config('stackit.syncing_tags', 'off', true);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_question_tags_changed_sync_counts
+  AFTER INSERT OR UPDATE OF tags OR DELETE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.sync_tag_counts();
+
+-- Normalize the tags already on questions. This is a cleanup, not an edit, so
+-- skip the revision, lock and edited-at triggers while doing it.
+ALTER TABLE public.questions DISABLE TRIGGER USER;
+UPDATE public.questions SET tags = public.normalize_tags(tags)
+WHERE tags IS DISTINCT FROM public.normalize_tags(tags);
+ALTER TABLE public.questions ENABLE TRIGGER USER;
+
+INSERT INTO public.tags (slug, question_count, created_at)
+SELECT tag, COUNT(*), MIN(q.created_at)
+FROM public.questions q, unnest(q.tags) AS tag
+GROUP BY tag;
+
+-- Starter excerpts for the tags the seed questions use
+UPDATE public.tags t SET excerpt = v.excerpt
+FROM (VALUES
+  ('sql', 'Structured Query Language, for querying and modifying relational databases.'),
+  ('database', 'For questions about designing, querying and running databases.'),
+  ('mysql', 'MySQL is an open-source relational database management system.'),
+  ('react', 'React is a JavaScript library for building user interfaces out of components.'),
+  ('javascript', 'For questions about programming in JavaScript (ECMAScript) and its runtimes.'),
+  ('hooks', 'React hooks such as useState and useEffect, and writing custom hooks.'),
+  ('node.js', 'Node.js is a JavaScript runtime for running JavaScript outside the browser.'),
+  ('jwt', 'JSON Web Tokens, a compact format for passing signed claims between parties.'),
+  ('authentication', 'Verifying who a user or service is: logins, sessions, tokens.'),
+  ('security', 'Keeping applications and their data safe from attacks and mistakes.')
+) AS v(slug, excerpt)
+WHERE t.slug = v.slug;
@@ -0,0 +1,34 @@
+-- Tag names: letters, digits and . # + (for node.js, c#, c++), with single
+-- hyphens between words, at most 35 characters. Questions take up to 5 tags.
+-- Existing tags are left as they are; the rules apply to new ones.
+ALTER TABLE public.tags
+  ADD CONSTRAINT tags_slug_format CHECK (char_length(slug) <= 35 AND slug ~ '^[a-z0-9.#+]+(-[a-z0-9.#+]+)*$') NOT VALID;
+
+CREATE OR REPLACE FUNCTION public.normalize_question_tags()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_invalid TEXT;
+BEGIN
+  NEW.tags := public.normalize_tags(NEW.tags);
+
+  IF TG_OP = 'UPDATE' AND NEW.tags IS NOT DISTINCT FROM OLD.tags THEN
+    RETURN NEW;
+  END IF;
+
+  IF cardinality(NEW.tags) > 5 THEN
+    RAISE EXCEPTION 'Questions can have at most 5 tags' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT t INTO v_invalid
+  FROM unnest(NEW.tags) AS t
+  WHERE char_length(t) > 35 OR t !~ '^[a-z0-9.#+]+(-[a-z0-9.#+]+)*$'
+  LIMIT 1;
+
+  IF v_invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Invalid tag "%": tags can only use letters, numbers, hyphens and . # +, up to 35 characters', v_invalid
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
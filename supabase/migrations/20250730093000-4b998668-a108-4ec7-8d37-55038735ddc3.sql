@@ -0,0 +1,266 @@
+-- Create tag synonyms: a synonym tag (js) that is rewritten to its master tag
+-- (javascript) whenever a question is saved. Moderators propose them, and
+-- approving one merges the synonym's questions into the master.
+CREATE TABLE public.tag_synonyms (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  source_slug TEXT NOT NULL CHECK (source_slug = public.normalize_tag(source_slug)),
+  target_slug TEXT NOT NULL REFERENCES public.tags(slug) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  proposed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  CHECK (source_slug <> target_slug)
+);
+
+-- A tag can be the synonym of one master, and have one open proposal at a time
+CREATE UNIQUE INDEX tag_synonyms_source_idx ON public.tag_synonyms(source_slug) WHERE status <> 'rejected';
+CREATE INDEX tag_synonyms_target_idx ON public.tag_synonyms(target_slug);
+
+ALTER TABLE public.tag_synonyms ENABLE ROW LEVEL SECURITY;
+
+-- Synonyms are public; rows are only written through the functions below
+CREATE POLICY "Anyone can view tag synonyms" ON public.tag_synonyms FOR SELECT USING (true);
+
+-- Rewrite approved synonyms in a normalized tag list to their masters
+CREATE OR REPLACE FUNCTION public.resolve_tag_synonyms(p_tags TEXT[])
+RETURNS TEXT[] AS $$
+  SELECT public.normalize_tags(ARRAY(
+    SELECT COALESCE(s.target_slug, t)
+    FROM unnest(p_tags) WITH ORDINALITY AS u(t, ord)
+    LEFT JOIN public.tag_synonyms s ON s.source_slug = t AND s.status = 'approved'
+    ORDER BY ord
+  ));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.normalize_question_tags()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_invalid TEXT;
+BEGIN
+  NEW.tags := public.resolve_tag_synonyms(public.normalize_tags(NEW.tags));
+
+  -- A merge only swaps a tag for its master; older questions may carry tags
+  -- from before the naming rules, and those shouldn't block it
+  IF TG_OP = 'UPDATE'
+    AND (NEW.tags IS NOT DISTINCT FROM OLD.tags OR current_setting('stackit.merging_tags', true) = 'on')
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF cardinality(NEW.tags) > 5 THEN
+    RAISE EXCEPTION 'Questions can have at most 5 tags' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT t INTO v_invalid
+  FROM unnest(NEW.tags) AS t
+  WHERE char_length(t) > 35 OR t !~ '^[a-z0-9.#+]+(-[a-z0-9.#+]+)*$'
+  LIMIT 1;
+
+  IF v_invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Invalid tag "%": tags can only use letters, numbers, hyphens and . # +, up to 35 characters', v_invalid
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Merging tags retags locked questions too
+CREATE OR REPLACE FUNCTION public.prevent_locked_thread_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_question_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'questions' THEN
+    -- Votes, views, closing, locking and tag merges still update the row
+    IF (NEW.title IS NOT DISTINCT FROM OLD.title
+      AND NEW.description IS NOT DISTINCT FROM OLD.description
+      AND NEW.tags IS NOT DISTINCT FROM OLD.tags)
+      OR current_setting('stackit.merging_tags', true) = 'on'
+    THEN
+      RETURN NEW;
+    END IF;
+    v_question_id := NEW.id;
+  ELSIF TG_TABLE_NAME IN ('answers', 'comments') THEN
+    IF TG_OP = 'UPDATE' AND NEW.content IS NOT DISTINCT FROM OLD.content THEN
+      RETURN NEW;
+    END IF;
+    v_question_id := NEW.question_id;
+  ELSIF NEW.target_type = 'question' THEN
+    v_question_id := NEW.target_id;
+  ELSE
+    SELECT question_id INTO v_question_id FROM public.answers WHERE id = NEW.target_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.questions WHERE id = v_question_id AND locked_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'This question is locked by a moderator' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Check that p_source can become a synonym of p_target, both normalized
+CREATE OR REPLACE FUNCTION public.check_tag_synonym(p_source TEXT, p_target TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF p_source = '' OR p_target = '' THEN
+    RAISE EXCEPTION 'Both tags are required' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_source = p_target THEN
+    RAISE EXCEPTION 'A tag cannot be a synonym of itself' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.tags WHERE slug = p_target) THEN
+    RAISE EXCEPTION 'There is no tag called "%"', p_target USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.tag_synonyms WHERE source_slug = p_target AND status = 'approved') THEN
+    RAISE EXCEPTION '"%" is itself a synonym; use its master tag instead', p_target USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.tag_synonyms WHERE source_slug = p_source AND status = 'approved') THEN
+    RAISE EXCEPTION '"%" is already a synonym', p_source USING ERRCODE = '23505';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.check_tag_synonym(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Approve synonym p_synonym_id and merge its tag into the master: every
+-- question tagged with the synonym is retagged in this transaction, and the
+-- synonym's tag row is removed. Returns the number of questions retagged.
+CREATE OR REPLACE FUNCTION public.apply_tag_synonym(p_synonym_id UUID, p_moderator_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_synonym public.tag_synonyms%ROWTYPE;
+  v_retagged INTEGER;
+BEGIN
+  UPDATE public.tag_synonyms
+  SET status = 'approved', reviewed_by = p_moderator_id, reviewed_at = now()
+  WHERE id = p_synonym_id
+  RETURNING * INTO v_synonym;
+
+  -- Synonyms of the merged tag now point straight at the new master
+  UPDATE public.tag_synonyms SET target_slug = v_synonym.target_slug
+  WHERE target_slug = v_synonym.source_slug AND status <> 'rejected';
+
+  PERFORM set_config('stackit.merging_tags', 'on', true);
+  PERFORM set_config('stackit.edit_summary', format('Merged tag [%s] into [%s]', v_synonym.source_slug, v_synonym.target_slug), true);
+
+  -- normalize_question_tags() does the rewriting
+  UPDATE public.questions SET tags = tags
+  WHERE tags @> ARRAY[v_synonym.source_slug];
+  GET DIAGNOSTICS v_retagged = ROW_COUNT;
+
+  PERFORM set_config('stackit.edit_summary', '', true);
+  PERFORM set_config('stackit.merging_tags', 'off', true);
+
+  -- Keep the synonym's description if the master doesn't have one
+  PERFORM set_config('stackit.syncing_tags', 'on', true);
+  UPDATE public.tags m
+  SET excerpt = COALESCE(m.excerpt, s.excerpt), wiki = COALESCE(m.wiki, s.wiki)
+  FROM public.tags s
+  WHERE m.slug = v_synonym.target_slug AND s.slug = v_synonym.source_slug;
+  PERFORM set_config('stackit.syncing_tags', 'off', true);
+
+  DELETE FROM public.tags WHERE slug = v_synonym.source_slug;
+
+  RETURN v_retagged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_tag_synonym(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Propose p_source as a synonym of p_target. Moderators only.
+CREATE OR REPLACE FUNCTION public.propose_tag_synonym(p_source TEXT, p_target TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_moderator_id UUID := auth.uid();
+  v_source TEXT := public.normalize_tag(COALESCE(p_source, ''));
+  v_target TEXT := public.normalize_tag(COALESCE(p_target, ''));
+  v_synonym_id UUID;
+BEGIN
+  IF NOT public.is_moderator(v_moderator_id) THEN
+    RAISE EXCEPTION 'Only moderators can propose tag synonyms' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM public.check_tag_synonym(v_source, v_target);
+
+  IF EXISTS (SELECT 1 FROM public.tag_synonyms WHERE source_slug = v_source AND status = 'pending') THEN
+    RAISE EXCEPTION '"%" already has a pending synonym proposal', v_source USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.tag_synonyms (source_slug, target_slug, proposed_by)
+  VALUES (v_source, v_target, v_moderator_id)
+  RETURNING id INTO v_synonym_id;
+
+  RETURN v_synonym_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Approve or reject a pending synonym. Approving merges the tags and returns
+-- the number of questions retagged. Moderators only.
+CREATE OR REPLACE FUNCTION public.review_tag_synonym(p_synonym_id UUID, p_approve BOOLEAN)
+RETURNS INTEGER AS $$
+DECLARE
+  v_moderator_id UUID := auth.uid();
+  v_synonym public.tag_synonyms%ROWTYPE;
+BEGIN
+  IF NOT public.is_moderator(v_moderator_id) THEN
+    RAISE EXCEPTION 'Only moderators can review tag synonyms' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_synonym FROM public.tag_synonyms WHERE id = p_synonym_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Synonym proposal not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_synonym.status <> 'pending' THEN
+    RAISE EXCEPTION 'This proposal has already been reviewed' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT p_approve THEN
+    UPDATE public.tag_synonyms
+    SET status = 'rejected', reviewed_by = v_moderator_id, reviewed_at = now()
+    WHERE id = p_synonym_id;
+    RETURN 0;
+  END IF;
+
+  -- Tags may have changed since it was proposed
+  PERFORM public.check_tag_synonym(v_synonym.source_slug, v_synonym.target_slug);
+
+  RETURN public.apply_tag_synonym(p_synonym_id, v_moderator_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Merge p_source into p_target straight away, recording it as an approved
+-- synonym. Returns the number of questions retagged. Moderators only.
+CREATE OR REPLACE FUNCTION public.merge_tags(p_source TEXT, p_target TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_moderator_id UUID := auth.uid();
+  v_source TEXT := public.normalize_tag(COALESCE(p_source, ''));
+  v_target TEXT := public.normalize_tag(COALESCE(p_target, ''));
+  v_synonym_id UUID;
+BEGIN
+  IF NOT public.is_moderator(v_moderator_id) THEN
+    RAISE EXCEPTION 'Only moderators can merge tags' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM public.check_tag_synonym(v_source, v_target);
+
+  -- A pending proposal for the same tag is superseded by the merge
+  UPDATE public.tag_synonyms
+  SET status = 'rejected', reviewed_by = v_moderator_id, reviewed_at = now()
+  WHERE source_slug = v_source AND status = 'pending';
+
+  INSERT INTO public.tag_synonyms (source_slug, target_slug, proposed_by)
+  VALUES (v_source, v_target, v_moderator_id)
+  RETURNING id INTO v_synonym_id;
+
+  RETURN public.apply_tag_synonym(v_synonym_id, v_moderator_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
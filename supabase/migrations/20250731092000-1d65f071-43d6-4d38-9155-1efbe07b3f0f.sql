@@ -0,0 +1,49 @@
+-- Tag leaderboards. Askers are ranked by the score of their questions with
+-- the tag, answerers by the score of their answers to those questions. Pass
+-- p_days to only count posts from the last p_days days; NULL is all time.
+CREATE OR REPLACE FUNCTION public.tag_top_askers(p_tag TEXT, p_days INTEGER DEFAULT NULL, p_limit INTEGER DEFAULT 10)
+RETURNS TABLE (
+  user_id UUID,
+  username TEXT,
+  reputation INTEGER,
+  post_count INTEGER,
+  score INTEGER
+) AS $$
+  SELECT
+    p.id AS user_id,
+    p.username,
+    p.reputation,
+    COUNT(*)::INTEGER AS post_count,
+    COALESCE(SUM(q.votes), 0)::INTEGER AS score
+  FROM public.questions q
+  JOIN public.profiles p ON p.id = q.user_id
+  WHERE q.tags @> ARRAY[public.normalize_tag(p_tag)]
+    AND (p_days IS NULL OR q.created_at >= now() - make_interval(days => p_days))
+  GROUP BY p.id, p.username, p.reputation
+  ORDER BY score DESC, post_count DESC, p.username
+  LIMIT LEAST(COALESCE(p_limit, 10), 50);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.tag_top_answerers(p_tag TEXT, p_days INTEGER DEFAULT NULL, p_limit INTEGER DEFAULT 10)
+RETURNS TABLE (
+  user_id UUID,
+  username TEXT,
+  reputation INTEGER,
+  post_count INTEGER,
+  score INTEGER
+) AS $$
+  SELECT
+    p.id AS user_id,
+    p.username,
+    p.reputation,
+    COUNT(*)::INTEGER AS post_count,
+    COALESCE(SUM(a.votes), 0)::INTEGER AS score
+  FROM public.answers a
+  JOIN public.questions q ON q.id = a.question_id
+  JOIN public.profiles p ON p.id = a.user_id
+  WHERE q.tags @> ARRAY[public.normalize_tag(p_tag)]
+    AND (p_days IS NULL OR a.created_at >= now() - make_interval(days => p_days))
+  GROUP BY p.id, p.username, p.reputation
+  ORDER BY score DESC, post_count DESC, p.username
+  LIMIT LEAST(COALESCE(p_limit, 10), 50);
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,18 @@
+-- Watched and ignored tags, kept on the user's profile. Entries are tag names
+-- or wildcard patterns where * matches anything, e.g. react* for react,
+-- react-native and react-hooks.
+CREATE OR REPLACE FUNCTION public.valid_tag_patterns(p_patterns TEXT[])
+RETURNS BOOLEAN AS $$
+  SELECT cardinality(p_patterns) <= 50 AND NOT EXISTS (
+    SELECT 1 FROM unnest(p_patterns) AS p
+    WHERE char_length(p) > 35
+      OR p !~ '^[a-z0-9.#+*]+(-[a-z0-9.#+*]+)*$'
+      OR p !~ '[^*]'
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE public.profiles
+  ADD COLUMN watched_tags TEXT[] NOT NULL DEFAULT '{}' CHECK (public.valid_tag_patterns(watched_tags)),
+  ADD COLUMN ignored_tags TEXT[] NOT NULL DEFAULT '{}' CHECK (public.valid_tag_patterns(ignored_tags)),
+  -- Whether questions with ignored tags are dimmed or left out of the home feed
+  ADD COLUMN hide_ignored_tags BOOLEAN NOT NULL DEFAULT false;
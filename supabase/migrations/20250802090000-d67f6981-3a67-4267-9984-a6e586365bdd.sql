@@ -0,0 +1,23 @@
+-- Vote totals could be set on insert, since protect_vote_totals() only ran
+-- on updates. New posts now start at zero.
+CREATE OR REPLACE FUNCTION public.protect_vote_totals()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.votes := 0;
+  ELSIF current_setting('stackit.syncing_votes', true) IS DISTINCT FROM 'on' THEN
+    NEW.votes := OLD.votes;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER protect_question_vote_totals ON public.questions;
+CREATE TRIGGER protect_question_vote_totals
+  BEFORE INSERT OR UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_vote_totals();
+
+DROP TRIGGER protect_answer_vote_totals ON public.answers;
+CREATE TRIGGER protect_answer_vote_totals
+  BEFORE INSERT OR UPDATE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.protect_vote_totals();
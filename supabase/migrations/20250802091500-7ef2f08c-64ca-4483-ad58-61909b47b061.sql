@@ -0,0 +1,18 @@
+-- Questions could be posted already marked answered, since
+-- protect_question_accept_state() only ran on updates
+CREATE OR REPLACE FUNCTION public.protect_question_accept_state()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.has_accepted_answer := false;
+  ELSIF current_setting('stackit.syncing_accept', true) IS DISTINCT FROM 'on' THEN
+    NEW.has_accepted_answer := OLD.has_accepted_answer;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER protect_question_accept_state ON public.questions;
+CREATE TRIGGER protect_question_accept_state
+  BEFORE INSERT OR UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_question_accept_state();
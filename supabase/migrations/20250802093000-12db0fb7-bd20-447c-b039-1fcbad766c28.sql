@@ -0,0 +1,38 @@
+-- Find the reputation a post has earned when it is deleted
+CREATE INDEX reputation_events_target_idx ON public.reputation_events(target_type, target_id);
+
+-- Deleting a post takes back the reputation it earned. Its votes are removed
+-- once the post is gone, when handle_vote_reputation() can no longer find the
+-- owner, so settle whatever still stands on the post here instead.
+CREATE OR REPLACE FUNCTION public.reverse_post_reputation()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_event RECORD;
+BEGIN
+  FOR v_event IN
+    SELECT e.user_id, e.event_type, SUM(e.points)::INTEGER AS points
+    FROM public.reputation_events e
+    WHERE e.target_type = TG_ARGV[0] AND e.target_id = OLD.id
+      -- Skip users whose profile is being deleted along with the post
+      AND EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = e.user_id)
+    GROUP BY e.user_id, e.event_type
+    HAVING SUM(e.points) <> 0
+  LOOP
+    PERFORM public.apply_reputation(
+      v_event.user_id, v_event.event_type, v_event.points,
+      true, TG_ARGV[0], OLD.id, NULL
+    );
+  END LOOP;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_question_deleted_reverse_reputation
+  AFTER DELETE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.reverse_post_reputation('question');
+
+CREATE TRIGGER on_answer_deleted_reverse_reputation
+  AFTER DELETE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.reverse_post_reputation('answer');
+
@@ -0,0 +1,16 @@
+-- Recipients could rewrite any column of their own notifications. They may
+-- only mark them read or unread; pin everything else.
+CREATE OR REPLACE FUNCTION public.protect_notification_contents()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_read_at TIMESTAMP WITH TIME ZONE := NEW.read_at;
+BEGIN
+  NEW := OLD;
+  NEW.read_at := v_read_at;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_notification_contents
+  BEFORE UPDATE ON public.notifications
+  FOR EACH ROW EXECUTE FUNCTION public.protect_notification_contents();
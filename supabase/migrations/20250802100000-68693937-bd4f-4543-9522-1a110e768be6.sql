@@ -0,0 +1,58 @@
+-- Votes could still be retracted on a locked thread, since prevent_locked_votes
+-- only ran on inserts and updates. Same checks as before, plus deletes.
+CREATE OR REPLACE FUNCTION public.prevent_locked_thread_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_question_id UUID;
+  v_vote public.votes;
+BEGIN
+  IF TG_TABLE_NAME = 'questions' THEN
+    -- Votes, views, closing, locking and tag merges still update the row
+    IF (NEW.title IS NOT DISTINCT FROM OLD.title
+      AND NEW.description IS NOT DISTINCT FROM OLD.description
+      AND NEW.tags IS NOT DISTINCT FROM OLD.tags)
+      OR current_setting('stackit.merging_tags', true) = 'on'
+    THEN
+      RETURN NEW;
+    END IF;
+    v_question_id := NEW.id;
+  ELSIF TG_TABLE_NAME IN ('answers', 'comments') THEN
+    IF TG_OP = 'UPDATE' AND NEW.content IS NOT DISTINCT FROM OLD.content THEN
+      RETURN NEW;
+    END IF;
+    v_question_id := NEW.question_id;
+  ELSE
+    -- Votes. Retracting your own vote counts as a change; votes removed along
+    -- with a post or an account don't.
+    IF TG_OP = 'DELETE' THEN
+      IF OLD.user_id IS DISTINCT FROM auth.uid() THEN
+        RETURN OLD;
+      END IF;
+      v_vote := OLD;
+    ELSE
+      v_vote := NEW;
+    END IF;
+
+    IF v_vote.target_type = 'question' THEN
+      v_question_id := v_vote.target_id;
+    ELSE
+      SELECT question_id INTO v_question_id FROM public.answers WHERE id = v_vote.target_id;
+    END IF;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.questions WHERE id = v_question_id AND locked_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'This question is locked by a moderator' USING ERRCODE = '42501';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+DROP TRIGGER prevent_locked_votes ON public.votes;
+CREATE TRIGGER prevent_locked_votes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.votes
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_locked_thread_changes();
@@ -0,0 +1,48 @@
+-- Merging js into javascript while "javascript -> js" was pending re-pointed
+-- that proposal at itself and failed the synonym CHECK. The merge now rejects
+-- the opposite proposal first.
+CREATE OR REPLACE FUNCTION public.apply_tag_synonym(p_synonym_id UUID, p_moderator_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_synonym public.tag_synonyms%ROWTYPE;
+  v_retagged INTEGER;
+BEGIN
+  UPDATE public.tag_synonyms
+  SET status = 'approved', reviewed_by = p_moderator_id, reviewed_at = now()
+  WHERE id = p_synonym_id
+  RETURNING * INTO v_synonym;
+
+  -- A pending proposal to merge the other way round would now point the
+  -- master at itself, so the merge settles it
+  UPDATE public.tag_synonyms
+  SET status = 'rejected', reviewed_by = p_moderator_id, reviewed_at = now()
+  WHERE source_slug = v_synonym.target_slug AND target_slug = v_synonym.source_slug AND status = 'pending';
+
+  -- Synonyms of the merged tag now point straight at the new master
+  UPDATE public.tag_synonyms SET target_slug = v_synonym.target_slug
+  WHERE target_slug = v_synonym.source_slug AND status <> 'rejected';
+
+  PERFORM set_config('stackit.merging_tags', 'on', true);
+  PERFORM set_config('stackit.edit_summary', format('Merged tag [%s] into [%s]', v_synonym.source_slug, v_synonym.target_slug), true);
+
+  -- normalize_question_tags() does the rewriting
+  UPDATE public.questions SET tags = tags
+  WHERE tags @> ARRAY[v_synonym.source_slug];
+  GET DIAGNOSTICS v_retagged = ROW_COUNT;
+
+  PERFORM set_config('stackit.edit_summary', '', true);
+  PERFORM set_config('stackit.merging_tags', 'off', true);
+
+  -- Keep the synonym's description if the master doesn't have one
+  PERFORM set_config('stackit.syncing_tags', 'on', true);
+  UPDATE public.tags m
+  SET excerpt = COALESCE(m.excerpt, s.excerpt), wiki = COALESCE(m.wiki, s.wiki)
+  FROM public.tags s
+  WHERE m.slug = v_synonym.target_slug AND s.slug = v_synonym.source_slug;
+  PERFORM set_config('stackit.syncing_tags', 'off', true);
+
+  DELETE FROM public.tags WHERE slug = v_synonym.source_slug;
+
+  RETURN v_retagged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,29 @@
+-- Watched and ignored tags were added to profiles, but profiles are readable
+-- by everyone ("Users can view all profiles"), which made every user's ignore
+-- list public. They still belong to the profile, one row per profile, but live
+-- in their own table that only the owner can read or write.
+CREATE TABLE public.user_tag_preferences (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  watched_tags TEXT[] NOT NULL DEFAULT '{}' CHECK (public.valid_tag_patterns(watched_tags)),
+  ignored_tags TEXT[] NOT NULL DEFAULT '{}' CHECK (public.valid_tag_patterns(ignored_tags)),
+  -- Whether questions with ignored tags are dimmed or left out of the home feed
+  hide_ignored_tags BOOLEAN NOT NULL DEFAULT false
+);
+
+ALTER TABLE public.user_tag_preferences ENABLE ROW LEVEL SECURITY;
+
+-- Tag preferences policies: each user sees and edits only their own row
+CREATE POLICY "Users can view their own tag preferences" ON public.user_tag_preferences FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own tag preferences" ON public.user_tag_preferences FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own tag preferences" ON public.user_tag_preferences FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- Carry over what users have already set
+INSERT INTO public.user_tag_preferences (user_id, watched_tags, ignored_tags, hide_ignored_tags)
+SELECT id, watched_tags, ignored_tags, hide_ignored_tags
+FROM public.profiles
+WHERE watched_tags <> '{}' OR ignored_tags <> '{}' OR hide_ignored_tags;
+
+ALTER TABLE public.profiles
+  DROP COLUMN watched_tags,
+  DROP COLUMN ignored_tags,
+  DROP COLUMN hide_ignored_tags;
@@ -0,0 +1,14 @@
+-- Answers could be moved to another question by updating question_id,
+-- taking their accepted state along and leaving has_accepted_answer wrong on
+-- both questions. An answer now stays on the question it was posted to.
+CREATE OR REPLACE FUNCTION public.protect_post_author()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.user_id := OLD.user_id;
+  NEW.author_name := OLD.author_name;
+  IF TG_TABLE_NAME = 'answers' THEN
+    NEW.question_id := OLD.question_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,41 @@
+-- A mention token only counts when its name matches the username of the
+-- profile it points at, so a post can't ping arbitrary ids behind a made-up
+-- name. Posts notify at most the first 10 people they mention.
+CREATE OR REPLACE FUNCTION public.mentioned_user_ids(p_content TEXT)
+RETURNS SETOF UUID AS $$
+  SELECT p.id
+  FROM regexp_matches(
+    COALESCE(p_content, ''),
+    '@\[([^\]\n]+)\]\(user:([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})\)',
+    'g'
+  ) WITH ORDINALITY AS m(match, position)
+  JOIN public.profiles p ON p.id = m.match[2]::UUID AND lower(p.username) = lower(m.match[1])
+  GROUP BY p.id
+  ORDER BY min(m.position)
+  LIMIT 10;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Same cap for plain @username mentions in comments
+CREATE OR REPLACE FUNCTION public.notify_username_mentions(
+  p_content TEXT,
+  p_actor_id UUID,
+  p_question_id UUID,
+  p_answer_id UUID,
+  p_comment_id UUID
+)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  FOR v_user_id IN
+    SELECT p.id
+    FROM regexp_matches(p_content, '(?:^|[^\w@])@([\w.-]+)', 'g') WITH ORDINALITY AS m(match, position)
+    JOIN public.profiles p ON lower(p.username) = lower(m.match[1])
+    GROUP BY p.id
+    ORDER BY min(m.position)
+    LIMIT 10
+  LOOP
+    PERFORM public.create_notification(v_user_id, p_actor_id, 'mention', p_question_id, p_answer_id, p_comment_id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
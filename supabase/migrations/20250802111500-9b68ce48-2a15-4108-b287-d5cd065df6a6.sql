@@ -0,0 +1,3 @@
+-- Signed-in users call these directly; the functions check edit rights themselves
+GRANT EXECUTE ON FUNCTION public.edit_post(TEXT, UUID, TEXT, TEXT, TEXT[], TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rollback_post(UUID) TO authenticated;
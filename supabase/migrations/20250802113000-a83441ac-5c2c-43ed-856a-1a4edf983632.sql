@@ -0,0 +1,3 @@
+-- Signed-in users call these directly; the functions check review rights themselves
+GRANT EXECUTE ON FUNCTION public.suggest_edit(TEXT, UUID, TEXT, TEXT, TEXT, TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.review_suggested_edit(UUID, TEXT, TEXT, TEXT, TEXT, TEXT[]) TO authenticated;
@@ -0,0 +1,3 @@
+-- Signed-in users call these directly; the functions check voting privileges themselves
+GRANT EXECUTE ON FUNCTION public.vote_to_close(UUID, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.vote_to_reopen(UUID) TO authenticated;
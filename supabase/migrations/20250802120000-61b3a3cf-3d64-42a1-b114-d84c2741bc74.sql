@@ -0,0 +1,3 @@
+-- Signed-in users call these directly; the functions only let moderators through
+GRANT EXECUTE ON FUNCTION public.moderate_flagged_post(TEXT, UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_question_lock(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,98 @@
+-- Comment upvotes and accepting an answer go through these RPCs rather than
+-- the tables the lock triggers watch, so they check the lock themselves.
+
+-- Upvote a comment, or retract the caller's upvote. Returns the new total.
+CREATE OR REPLACE FUNCTION public.toggle_comment_upvote(p_comment_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_owner_id UUID;
+  v_question_id UUID;
+  v_total INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to vote' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT user_id, question_id INTO v_owner_id, v_question_id FROM public.comments WHERE id = p_comment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The comment you voted on no longer exists' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_owner_id = v_user_id THEN
+    RAISE EXCEPTION 'You cannot vote on your own comment' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.questions WHERE id = v_question_id AND locked_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'This question is locked by a moderator' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.comment_votes WHERE comment_id = p_comment_id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.comment_votes (comment_id, user_id) VALUES (p_comment_id, v_user_id);
+  END IF;
+
+  SELECT COUNT(*) INTO v_total FROM public.comment_votes WHERE comment_id = p_comment_id;
+
+  PERFORM set_config('stackit.syncing_votes', 'on', true);
+  UPDATE public.comments SET votes = v_total WHERE id = p_comment_id;
+  PERFORM set_config('stackit.syncing_votes', 'off', true);
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accept an answer, or un-accept it if it is already accepted. Returns the new accepted state.
+CREATE OR REPLACE FUNCTION public.accept_answer(p_answer_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_question_id UUID;
+  v_question_owner UUID;
+  v_locked_at TIMESTAMP WITH TIME ZONE;
+  v_was_accepted BOOLEAN;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to accept answers' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT question_id, COALESCE(is_accepted, false) INTO v_question_id, v_was_accepted
+  FROM public.answers
+  WHERE id = p_answer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Answer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock the question so concurrent accepts on it serialize
+  SELECT user_id, locked_at INTO v_question_owner, v_locked_at
+  FROM public.questions
+  WHERE id = v_question_id
+  FOR UPDATE;
+
+  IF v_question_owner IS DISTINCT FROM v_user_id THEN
+    RAISE EXCEPTION 'Only the question owner can accept answers' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_locked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This question is locked by a moderator' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_config('stackit.syncing_accept', 'on', true);
+
+  UPDATE public.answers
+  SET is_accepted = (id = p_answer_id AND NOT v_was_accepted)
+  WHERE question_id = v_question_id
+    AND (is_accepted OR id = p_answer_id);
+
+  UPDATE public.questions
+  SET has_accepted_answer = NOT v_was_accepted
+  WHERE id = v_question_id;
+
+  PERFORM set_config('stackit.syncing_accept', 'off', true);
+
+  RETURN NOT v_was_accepted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,70 @@
+-- Watched and ignored tags were matched in the browser, which meant loading
+-- every question to sort by interest or to leave out ignored ones. Match them
+-- here instead so the feed can be filtered, sorted and paged server-side.
+
+-- Same rules as tagMatchesPattern() in the client: * matches anything
+CREATE OR REPLACE FUNCTION public.tag_matches_pattern(p_tag TEXT, p_pattern TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT p_tag LIKE replace(replace(replace(p_pattern, '%', '\%'), '_', '\_'), '*', '%');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- How many of the tags match any of the patterns
+CREATE OR REPLACE FUNCTION public.count_tag_matches(p_tags TEXT[], p_patterns TEXT[])
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM unnest(COALESCE(p_tags, '{}')) AS t
+  WHERE EXISTS (SELECT 1 FROM unnest(p_patterns) AS p WHERE public.tag_matches_pattern(t, p));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The home and tag page question feed, scored against the caller's watched
+-- and ignored tag patterns. Callers filter, order and page the result.
+CREATE OR REPLACE FUNCTION public.question_feed(p_watched TEXT[] DEFAULT '{}', p_ignored TEXT[] DEFAULT '{}')
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  tags TEXT[],
+  author_name TEXT,
+  user_id UUID,
+  author_reputation INTEGER,
+  votes INTEGER,
+  views INTEGER,
+  has_accepted_answer BOOLEAN,
+  answer_count INTEGER,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  close_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  watched BOOLEAN,
+  ignored BOOLEAN,
+  interest INTEGER
+) AS $$
+  SELECT
+    q.id,
+    q.title,
+    q.description,
+    q.tags,
+    q.author_name,
+    q.user_id,
+    p.reputation AS author_reputation,
+    q.votes,
+    q.views,
+    q.has_accepted_answer,
+    (SELECT COUNT(*) FROM public.answers a WHERE a.question_id = q.id)::INTEGER AS answer_count,
+    q.closed_at,
+    q.close_reason,
+    q.created_at,
+    m.watched > 0 AS watched,
+    m.ignored > 0 AS ignored,
+    -- One point per watched tag, and ignored tags sink it below everything
+    -- else (a question has at most 5 tags)
+    m.watched - CASE WHEN m.ignored > 0 THEN 5 ELSE 0 END AS interest
+  FROM public.questions q
+  LEFT JOIN public.profiles p ON p.id = q.user_id
+  CROSS JOIN LATERAL (
+    SELECT
+      public.count_tag_matches(q.tags, p_watched) AS watched,
+      public.count_tag_matches(q.tags, p_ignored) AS ignored
+  ) m;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.question_feed(TEXT[], TEXT[]) TO anon, authenticated;